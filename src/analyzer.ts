@@ -1,26 +1,27 @@
 import { parse } from "@babel/parser"
-import traverseModule, { NodePath } from "@babel/traverse"
-import { ExportNamedDeclaration, Identifier, JSXIdentifier, JSXMemberExpression, TSTypeReference } from "@babel/types"
+import traverseModule, { NodePath, Visitor } from "@babel/traverse"
+import { ExportNamedDeclaration, Identifier, JSXIdentifier, JSXMemberExpression, TSParameterProperty, TSTypeReference } from "@babel/types"
 
+import { getParserPlugins, ParseImportsOptions } from "./parser"
 import { ImportContent, ImportStatement } from "./types"
 
 // 处理 ESM/CommonJS 兼容性
 // @ts-ignore
 const traverse = typeof traverseModule === "function" ? traverseModule : traverseModule.default
 
-/** 分析代码中使用的标识符 */
-export function analyzeUsedIdentifiers(code: string): Set<string> | null {
+/** 分析代码中使用的标识符，options 用于选择 Babel 的解析器插件 */
+export function analyzeUsedIdentifiers(code: string, options: ParseImportsOptions = {}): Set<string> | null {
     const usedIdentifiers = new Set<string>()
 
     try {
         const ast = parse(code, {
             sourceType: "module",
-            plugins: ["typescript", "jsx"],
+            plugins: getParserPlugins(options),
             errorRecovery: true,
         })
 
         // 遍历 AST，收集所有使用的标识符
-        traverse(ast, {
+        const visitor: Visitor = {
             // 处理普通标识符
             Identifier(path: NodePath<Identifier>) {
                 const node = path.node
@@ -99,7 +100,16 @@ export function analyzeUsedIdentifiers(code: string): Set<string> | null {
                     }
                 }
             },
-        })
+
+            // 处理参数属性的装饰器，比如 constructor(@Inject(TOKEN) private a: A)，Babel 默认不会遍历它们
+            TSParameterProperty(path: NodePath<TSParameterProperty>) {
+                for (const decorator of path.node.decorators ?? []) {
+                    traverse(decorator, visitor, path.scope, undefined, path)
+                }
+            },
+        }
+
+        traverse(ast, visitor)
     } catch (error) {
         // 静默处理语法错误
         // Prettier 是格式化工具，不应该验证语法错误
@@ -146,16 +156,23 @@ export function filterUnusedImports(importStatement: ImportStatement, usedIdenti
     }
 }
 
-/** 从导入语句列表中移除未使用的导入 */
-export function removeUnusedImportsFromStatements(importStatements: ImportStatement[], code: string): ImportStatement[] {
+/** 从导入语句列表中移除未使用的导入，externalIdentifiers 为代码之外使用的标识符，比如单文件组件的模板 */
+export function removeUnusedImportsFromStatements(
+    importStatements: ImportStatement[],
+    code: string,
+    externalIdentifiers?: Set<string>,
+    options?: ParseImportsOptions,
+): ImportStatement[] {
     // 分析代码中使用的标识符
-    const usedIdentifiers = analyzeUsedIdentifiers(code)
+    const usedIdentifiers = analyzeUsedIdentifiers(code, options)
 
     // 如果分析失败（代码有语法错误），直接返回原始导入语句，不做任何修改
     if (usedIdentifiers === null) {
         return importStatements
     }
 
+    externalIdentifiers?.forEach(identifier => usedIdentifiers.add(identifier))
+
     // 过滤每个导入语句
     const filteredStatements: ImportStatement[] = []
 
@@ -0,0 +1,83 @@
+import { Comment } from "@babel/types"
+
+/** 三斜线指令的正则，比如 /// <reference types="node" /> */
+const DIRECTIVE_REG_EXP = /^\/\/\/\s*<(reference|amd-module|amd-dependency)\b[^>]*\/>\s*$/
+
+/** reference 指令的属性顺序，其他属性排在最后 */
+const REFERENCE_ORDER = ["types", "path"]
+
+/** 判断注释是否是三斜线指令，Babel 注释的内容不包括开头的 // */
+export function isTripleSlashDirective(comment: Comment): boolean {
+    return comment.type === "CommentLine" && DIRECTIVE_REG_EXP.test(`//${comment.value}`.trim())
+}
+
+/** 获取 reference 指令的属性名称和值 */
+function getReference(directive: string): { name: string; value: string } | undefined {
+    const match = /^\/\/\/\s*<reference\s+([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/.exec(directive)
+
+    return match ? { name: match[1], value: match[2] ?? match[3] } : undefined
+}
+
+/** 获取三斜线指令用于去重的键，只有引号或空格不同的指令视为重复 */
+function getDirectiveKey(directive: string): string {
+    const reference = getReference(directive)
+
+    return reference ? `reference:${reference.name}=${reference.value}` : directive.replace(/\s+/g, "")
+}
+
+/** 比较两个三斜线指令，types 排在 path 之前，相同属性按值的字母顺序排序 */
+function compareDirectives(a: string, b: string): number {
+    const referenceA = getReference(a)
+    const referenceB = getReference(b)
+
+    function getOrder(reference?: { name: string }): number {
+        const index = reference ? REFERENCE_ORDER.indexOf(reference.name) : -1
+        return index === -1 ? REFERENCE_ORDER.length : index
+    }
+
+    return getOrder(referenceA) - getOrder(referenceB) || (referenceA?.value ?? a).localeCompare(referenceB?.value ?? b)
+}
+
+/** 去除文件开头重复的三斜线指令，sort 为 true 时同时排序，其他注释保持原位 */
+export function processTripleSlashDirectives(code: string, sort: boolean): string {
+    const lines = code.split("\n")
+
+    // 三斜线指令只能出现在文件开头的注释中
+    let headerLength = 0
+
+    while (headerLength < lines.length && /^\s*(\/\/.*)?\r?$/.test(lines[headerLength])) {
+        headerLength++
+    }
+
+    const directiveIndexes = lines.slice(0, headerLength).flatMap((line, index) => (DIRECTIVE_REG_EXP.test(line.trim()) ? [index] : []))
+
+    if (directiveIndexes.length === 0) {
+        return code
+    }
+
+    const keys = new Set<string>()
+    const duplicateIndexes = new Set<number>()
+
+    for (const index of directiveIndexes) {
+        const key = getDirectiveKey(lines[index].trim())
+
+        if (keys.has(key)) {
+            duplicateIndexes.add(index)
+        }
+
+        keys.add(key)
+    }
+
+    const uniqueIndexes = directiveIndexes.filter(index => !duplicateIndexes.has(index))
+
+    // 排序后的指令依次填回原来指令所在的行
+    if (sort) {
+        const sortedLines = uniqueIndexes.map(index => lines[index]).sort((a, b) => compareDirectives(a.trim(), b.trim()))
+
+        uniqueIndexes.forEach((index, order) => {
+            lines[index] = sortedLines[order]
+        })
+    }
+
+    return lines.filter((_, index) => !duplicateIndexes.has(index)).join("\n")
+}
@@ -1,10 +1,149 @@
-import { Group, ImportStatement, PluginConfig } from "./types" /** 格式化导入语句 */
+import { Group, ImportContent, ImportStatement, PluginConfig } from "./types"
 
+/** 判断是否是 type 或 typeof 类型的默认导入或者命名空间导入 */
+function isTypeDefaultOrNamespace(content: ImportContent): boolean {
+    return (content.name === "default" || content.name === "*") && content.type !== "variable"
+}
+
+/** 将 type 和 typeof 类型的默认导入和命名空间导入拆分为独立的导入语句，TypeScript 和 Flow 不允许它们与其他导入内容出现在同一个语句中 */
+function splitTypeOnlyStatements(statement: ImportStatement): ImportStatement[] {
+    if (statement.isExport || statement.isSideEffect || statement.importContents.length <= 1) {
+        return [statement]
+    }
+
+    const typeContents = statement.importContents.filter(isTypeDefaultOrNamespace)
+
+    if (typeContents.length === 0) {
+        return [statement]
+    }
+
+    const otherContents = statement.importContents.filter(content => !isTypeDefaultOrNamespace(content))
+    const contentsList = [...typeContents.map(content => [content]), ...(otherContents.length > 0 ? [otherContents] : [])]
+
+    // 前导注释放在第一个语句上，行尾注释放在最后一个语句上
+    return contentsList.map((importContents, index) => {
+        const isFirst = index === 0
+        const isLast = index === contentsList.length - 1
+
+        return {
+            ...statement,
+            importContents,
+            leadingComments: isFirst ? statement.leadingComments : undefined,
+            emptyLinesAfterComments: isFirst ? statement.emptyLinesAfterComments : undefined,
+            trailingComments: isLast ? statement.trailingComments : undefined,
+            removedTrailingComments: isLast ? statement.removedTrailingComments : undefined,
+        }
+    })
+}
+
+/** 格式化导入属性，比如 with { type: "json" } */
+function formatAttributes(statement: ImportStatement): string {
+    const { attributes, attributesKeyword = "with" } = statement
+
+    if (!attributes || attributes.length === 0) {
+        return ""
+    }
+
+    // 不是合法标识符的属性名需要使用引号
+    const items = attributes.map(({ key, value }) => `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)}: ${JSON.stringify(value)}`)
+
+    return ` ${attributesKeyword} { ${items.join(", ")} }`
+}
+
+/** 格式化 require 语句中解构的属性名，不是合法标识符的属性名需要使用引号 */
+function formatRequireKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)
+}
+
+/** 格式化 CommonJS 的 require 语句，不包括前导注释 */
+function formatRequireStatement(statement: ImportStatement): string {
+    const { path, isSideEffect, declarationKind = "const", importContents, trailingComments, removedTrailingComments } = statement
+
+    const lines: string[] = []
+
+    const requireCall = `require("${path}")`
+
+    // 解构的属性包含注释时使用多行格式
+    const hasComments = importContents.some(
+        content => (content.leadingComments && content.leadingComments.length > 0) || (content.trailingComments && content.trailingComments.length > 0),
+    )
+
+    if (!isSideEffect && hasComments && importContents[0].name !== "*") {
+        lines.push(`${declarationKind} {`)
+
+        const items = importContents.map(content => {
+            const key = formatRequireKey(content.name)
+            const itemLine = content.alias ? `${key}: ${content.alias}` : key
+            const trailing = content.trailingComments && content.trailingComments.length > 0 ? ` ${content.trailingComments.join(" ")}` : ""
+
+            return [...(content.leadingComments ?? []), `${itemLine}${trailing}`].join("\n    ")
+        })
+
+        lines.push(`    ${items.join(",\n    ")},`)
+        const trailing = trailingComments && trailingComments.length > 0 ? ` ${trailingComments.join(" ")}` : ""
+
+        lines.push(`} = ${requireCall}${trailing}`)
+    } else {
+        let requireLine = ""
+
+        if (isSideEffect) {
+            requireLine = requireCall
+        } else if (importContents[0].name === "*") {
+            // 整个模块
+            requireLine = `${declarationKind} ${importContents[0].alias} = ${requireCall}`
+        } else {
+            const items = importContents.map(content => {
+                const key = formatRequireKey(content.name)
+                return content.alias ? `${key}: ${content.alias}` : key
+            })
+
+            requireLine = `${declarationKind} { ${items.join(", ")} } = ${requireCall}`
+        }
+
+        // 添加行尾注释
+        if (trailingComments && trailingComments.length > 0) {
+            requireLine += ` ${trailingComments.join(" ")}`
+        }
+
+        lines.push(requireLine)
+    }
+
+    // 添加被移除导入的行尾注释（作为独立的注释行）
+    if (removedTrailingComments && removedTrailingComments.length > 0) {
+        lines.push("")
+
+        lines.push(...removedTrailingComments)
+    }
+
+    return lines.join("\n")
+}
+
+/** 格式化导入语句 */
 export function formatImportStatement(statement: ImportStatement): string {
-    const { path, isExport, isSideEffect, importContents, leadingComments, trailingComments, removedTrailingComments, emptyLinesAfterComments } = statement
+    const splitStatements = splitTypeOnlyStatements(statement)
+
+    if (splitStatements.length > 1) {
+        return splitStatements.map(formatImportStatement).join("\n")
+    }
+
+    const {
+        path,
+        isExport,
+        isSideEffect,
+        isTypeOnly: isTypeOnlyStatement,
+        isImportEquals,
+        isRequire,
+        importContents,
+        leadingComments,
+        trailingComments,
+        removedTrailingComments,
+        emptyLinesAfterComments,
+    } = statement
 
     const lines: string[] = []
 
+    const attributesPart = formatAttributes(statement)
+
     // 添加前导注释
     if (leadingComments && leadingComments.length > 0) {
         lines.push(...leadingComments)
@@ -16,14 +155,20 @@ export function formatImportStatement(statement: ImportStatement): string {
         }
     }
 
+    // CommonJS 的 require 语句
+    if (isRequire) {
+        lines.push(formatRequireStatement(statement))
+        return lines.join("\n")
+    }
+
     // 副作用导入
     if (isSideEffect) {
         let importLine = ""
 
         if (isExport) {
-            importLine = `export * from "${path}"`
+            importLine = isTypeOnlyStatement ? `export type * from "${path}"${attributesPart}` : `export * from "${path}"${attributesPart}`
         } else {
-            importLine = `import "${path}"`
+            importLine = `import "${path}"${attributesPart}`
         }
 
         // 添加行尾注释
@@ -35,6 +180,23 @@ export function formatImportStatement(statement: ImportStatement): string {
         return lines.join("\n")
     }
 
+    // import x = require() 语句
+    if (isImportEquals) {
+        const [content] = importContents
+        const exportKeyword = isExport ? "export " : ""
+        const typeKeyword = content.type === "type" ? "type " : ""
+
+        let importLine = `${exportKeyword}import ${typeKeyword}${content.alias} = require("${path}")`
+
+        // 添加行尾注释
+        if (trailingComments && trailingComments.length > 0) {
+            importLine += ` ${trailingComments.join(" ")}`
+        }
+
+        lines.push(importLine)
+        return lines.join("\n")
+    }
+
     // 检查命名导入是否包含注释
     const hasNamedImportComments = importContents.some(
         content =>
@@ -43,6 +205,11 @@ export function formatImportStatement(statement: ImportStatement): string {
             ((content.leadingComments && content.leadingComments.length > 0) || (content.trailingComments && content.trailingComments.length > 0)),
     )
 
+    // 所有导入内容都是 type 或者都是 typeof 类型时使用 import type 或 import typeof 语法，导入项前面不再需要类型关键字
+    const [firstContent] = importContents
+    const statementKind =
+        firstContent && firstContent.type !== "variable" && importContents.every(c => c.type === firstContent.type) ? firstContent.type : undefined
+
     // 构建导入内容（importContents 已经排序好了，直接按顺序处理）
     const parts: string[] = []
 
@@ -51,6 +218,8 @@ export function formatImportStatement(statement: ImportStatement): string {
     const namedPartsWithComments: string[] = []
 
     for (const content of importContents) {
+        const typePrefix = content.type !== "variable" && !statementKind ? `${content.type} ` : ""
+
         // 默认导入
         if (content.name === "default") {
             // 对于 import 语句，默认导入不需要大括号
@@ -58,9 +227,9 @@ export function formatImportStatement(statement: ImportStatement): string {
             if (isExport) {
                 // export 语句始终使用命名导出格式
                 if (content.alias) {
-                    namedParts.push(`default as ${content.alias}`)
+                    namedParts.push(`${typePrefix}default as ${content.alias}`)
                 } else {
-                    namedParts.push("default")
+                    namedParts.push(`${typePrefix}default`)
                 }
             } else {
                 // import 语句使用简化的默认导入格式
@@ -76,7 +245,6 @@ export function formatImportStatement(statement: ImportStatement): string {
         }
 
         // 命名导入
-        const typePrefix = content.type === "type" ? "type " : ""
         let importItem = ""
 
         if (content.alias) {
@@ -110,21 +278,18 @@ export function formatImportStatement(statement: ImportStatement): string {
         }
     }
 
-    // 检查导入类型组合
-    const namedImports = importContents.filter(c => c.name !== "default" && c.name !== "*")
+    const typeKeyword = statementKind ? `${statementKind} ` : ""
 
-    const allNamedImportsAreTypes = namedImports.every(c => c.type === "type")
-    const hasDefaultOrNamespace = importContents.some(c => c.name === "default" || c.name === "*")
+    // 导入阶段关键字，比如 import source 和 import defer，它们只有默认导入或者命名空间导入，不会出现在多行格式中
+    const phaseKeyword = statement.phase ? `${statement.phase} ` : ""
 
     // 添加命名导入部分
     if (hasNamedImportComments && namedPartsWithComments.length > 0) {
         // 多行格式
         const keyword = isExport ? "export" : "import"
-        // 只有在所有命名导入都是类型且没有默认导入/命名空间导入时才使用 type 关键字
-        const typeKeyword = allNamedImportsAreTypes && !hasDefaultOrNamespace ? "type " : ""
         const defaultPart = parts.length > 0 ? parts.join(", ") + ", " : ""
         const importStart = `${keyword} ${typeKeyword}${defaultPart}{`
-        const importEnd = `} from "${path}"`
+        const importEnd = `} from "${path}"${attributesPart}`
 
         lines.push(importStart)
         lines.push(`    ${namedPartsWithComments.join(",\n    ")},`)
@@ -132,30 +297,18 @@ export function formatImportStatement(statement: ImportStatement): string {
     } else {
         // 单行格式
         if (namedParts.length > 0) {
-            // 如果所有命名导入都是类型且没有默认导入/命名空间导入
-            if (allNamedImportsAreTypes && !hasDefaultOrNamespace) {
-                // 使用 import type { A, B } 格式
-                // 移除每个导入项前面的 type 关键字
-                const cleanedParts = namedParts.map(part => part.replace(/^type /, ""))
-
-                parts.push(`{ ${cleanedParts.join(", ")} }`)
-            } else {
-                // 其他情况保持每个导入项前面的 type 关键字
-                parts.push(`{ ${namedParts.join(", ")} }`)
-            }
+            parts.push(`{ ${namedParts.join(", ")} }`)
         }
 
         // 构建完整的导入语句
         const importClause = parts.join(", ")
 
-        // 只有在所有命名导入都是类型且没有默认导入/命名空间导入时才使用 type 关键字
-        const typeKeyword = allNamedImportsAreTypes && !hasDefaultOrNamespace ? "type " : ""
         let importLine = ""
 
         if (isExport) {
-            importLine = `export ${typeKeyword}${importClause} from "${path}"`
+            importLine = `export ${typeKeyword}${importClause} from "${path}"${attributesPart}`
         } else {
-            importLine = `import ${typeKeyword}${importClause} from "${path}"`
+            importLine = `import ${phaseKeyword}${typeKeyword}${importClause} from "${path}"${attributesPart}`
         }
 
         // 添加行尾注释
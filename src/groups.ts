@@ -0,0 +1,198 @@
+import { createCompareStrings, createSortGroup } from "./sorter"
+import { CollationConfig, CompiledGroupConfig, GroupConfig, ImportStatement, PluginConfig, SideEffectGroupPlacement } from "./types"
+
+/** 没有匹配任何分组的导入语句所在的分组 */
+const FALLBACK_GROUP = "default"
+
+/** 将单个值或数组统一转换为数组 */
+function toArray(value?: string | string[]): string[] {
+    if (value === undefined) {
+        return []
+    }
+
+    return Array.isArray(value) ? value : [value]
+}
+
+/** 转义正则表达式中的特殊字符 */
+function escapeRegExp(value: string): string {
+    return value.replace(/[.+^$()|[\]\\]/g, "\\$&")
+}
+
+/** 将 glob 转换为正则表达式，支持 *、**、? 和 {a,b} */
+export function globToRegExp(glob: string): RegExp {
+    let source = ""
+    let inBrace = false
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i]
+
+        if (char === "*") {
+            if (glob[i + 1] === "*") {
+                i++
+
+                // **/ 可以匹配零个或多个目录
+                if (glob[i + 1] === "/") {
+                    i++
+                    source += "(?:.*/)?"
+                } else {
+                    source += ".*"
+                }
+            } else {
+                source += "[^/]*"
+            }
+        } else if (char === "?") {
+            source += "[^/]"
+        } else if (char === "{") {
+            inBrace = true
+            source += "(?:"
+        } else if (char === "}" && inBrace) {
+            inBrace = false
+            source += ")"
+        } else if (char === "," && inBrace) {
+            source += "|"
+        } else {
+            source += escapeRegExp(char)
+        }
+    }
+
+    return new RegExp(`^${source}$`)
+}
+
+/** 已经解析和校验过的 JSON 字符串形式的分组配置，相同的配置只解析一次 */
+const parsedGroups = new Map<string, GroupConfig[]>()
+
+/** 获取错误的描述 */
+function getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error)
+}
+
+/** 校验分组配置，配置有误时抛出包含具体原因的错误 */
+function validateGroups(groups: unknown): GroupConfig[] {
+    if (!Array.isArray(groups)) {
+        throw new Error("Invalid import sort groups: expected an array of groups")
+    }
+
+    for (const group of groups) {
+        if (typeof group?.name !== "string") {
+            throw new Error(`Invalid import sort groups: every group needs a name, got ${JSON.stringify(group)}`)
+        }
+
+        for (const pattern of toArray(group.pattern)) {
+            try {
+                new RegExp(pattern)
+            } catch (error) {
+                throw new Error(`Invalid import sort groups: invalid pattern in group "${group.name}": ${getErrorMessage(error)}`)
+            }
+        }
+    }
+
+    return groups
+}
+
+/** 将 Prettier 选项中的分组配置统一转换为数组并校验，命令行中传入的是 JSON 字符串 */
+export function normalizeGroups(value: unknown): GroupConfig[] | undefined {
+    if (typeof value === "string") {
+        if (!value.trim()) {
+            return undefined
+        }
+
+        let groups = parsedGroups.get(value)
+
+        if (!groups) {
+            let parsed: unknown
+
+            try {
+                parsed = JSON.parse(value)
+            } catch (error) {
+                throw new Error(`Invalid import sort groups: ${getErrorMessage(error)}`)
+            }
+
+            groups = validateGroups(parsed)
+            parsedGroups.set(value, groups)
+        }
+
+        return groups
+    }
+
+    if (value !== undefined) {
+        return validateGroups(value)
+    }
+
+    return undefined
+}
+
+/** 校验分组顺序，分组顺序必须是分组名称的数组 */
+function validateGroupOrder(groupOrder: unknown): string[] {
+    if (!Array.isArray(groupOrder) || groupOrder.some(name => typeof name !== "string")) {
+        throw new Error(`Invalid import sort group order: expected an array of group names, got ${JSON.stringify(groupOrder)}`)
+    }
+
+    return groupOrder
+}
+
+/** 将 Prettier 选项中的分组顺序统一转换为数组并校验，支持逗号分隔的分组名称和 JSON 数组 */
+export function normalizeGroupOrder(value: unknown): string[] | undefined {
+    if (Array.isArray(value)) {
+        return validateGroupOrder(value)
+    }
+
+    if (typeof value !== "string" || !value.trim()) {
+        return undefined
+    }
+
+    if (value.trim().startsWith("[")) {
+        let parsed: unknown
+
+        try {
+            parsed = JSON.parse(value)
+        } catch (error) {
+            throw new Error(`Invalid import sort group order: ${getErrorMessage(error)}`)
+        }
+
+        return validateGroupOrder(parsed)
+    }
+
+    return value
+        .split(",")
+        .map(name => name.trim())
+        .filter(Boolean)
+}
+
+/** 将声明式的分组配置编译为 getGroup、sortGroup 和 separator */
+export function compileGroups(
+    groups: GroupConfig[],
+    separator?: PluginConfig["separator"],
+    collation?: CollationConfig,
+    sideEffectPlacement?: SideEffectGroupPlacement,
+): CompiledGroupConfig {
+    const matchers = groups.map(group => {
+        const regExps = [...toArray(group.pattern).map(pattern => new RegExp(pattern)), ...toArray(group.glob).map(globToRegExp)]
+
+        return {
+            name: group.name,
+            // 没有配置 pattern 和 glob 的分组匹配所有导入
+            test: (path: string) => regExps.length === 0 || regExps.some(regExp => regExp.test(path)),
+        }
+    })
+
+    const separators = new Map(groups.filter(group => group.separator !== undefined).map(group => [group.name, group.separator]))
+
+    return {
+        getGroup({ path }: ImportStatement): string {
+            return matchers.find(matcher => matcher.test(path))?.name ?? FALLBACK_GROUP
+        },
+        sortGroup: createSortGroup(
+            groups.map(group => group.name),
+            createCompareStrings(collation),
+            sideEffectPlacement,
+        ),
+        separator(group, index) {
+            // 分组自身的分隔符优先
+            if (separators.has(group.name)) {
+                return separators.get(group.name)
+            }
+
+            return typeof separator === "function" ? separator(group, index) : separator
+        },
+    }
+}
@@ -0,0 +1,58 @@
+import { isBuiltinModule } from "./presets"
+import {
+    compareImportTypes,
+    createCompareStrings,
+    createDefaultSortImportContent,
+    createDefaultSortImportStatement,
+    createRelativeImportComparator,
+    createSortGroup,
+    createSortGroupByName,
+    getImportType,
+    getRelativeDepth,
+    getStatementImportType,
+    isIndexPath,
+} from "./sorter"
+import { SideEffectGroupPlacement, SortGroupFunction } from "./types"
+
+export {
+    compareImportTypes,
+    createCompareStrings,
+    createRelativeImportComparator,
+    getImportType,
+    getRelativeDepth,
+    getStatementImportType,
+    isBuiltinModule,
+    isIndexPath,
+}
+
+/** 默认的分组排序函数，与自定义 getGroup 但没有配置 sortGroup 时的规则相同，只按照分组名称的字母顺序排序 */
+export const defaultSortGroup = createSortGroupByName()
+
+/** 副作用分组排在普通分组之后，然后按照分组名称的字母顺序排序，与没有配置 getGroup 或者配置了副作用分组的位置时的规则相同 */
+export const sortGroupSideEffectsLast = createSortGroup([])
+
+/** 默认的导入语句排序函数，优先按照导入类型（模块 > 内部包 > 绝对路径 > 相对路径），然后按照 path 的字母顺序排序 */
+export const defaultSortImportStatement = createDefaultSortImportStatement(createCompareStrings())
+
+/** 默认的导入内容排序函数，type 和 typeof 类型在前，然后按照最终导入的内容名称的字母顺序排序 */
+export const defaultSortImportContent = createDefaultSortImportContent(createCompareStrings())
+
+/** 组合多个比较函数，依次比较直到结果不为 0 */
+export function composeComparators<T, C extends unknown[]>(...comparators: ((a: T, b: T, ...rest: C) => number)[]): (a: T, b: T, ...rest: C) => number {
+    return function compare(a: T, b: T, ...rest: C): number {
+        for (const comparator of comparators) {
+            const result = comparator(a, b, ...rest)
+
+            if (result !== 0) {
+                return result
+            }
+        }
+
+        return 0
+    }
+}
+
+/** 创建按照给定顺序排序分组的函数，* 代表未列出的分组，没有 * 时未列出的分组排在最后，副作用分组默认排在普通分组之后 */
+export function byGroupOrder(names: string[], sideEffectPlacement?: SideEffectGroupPlacement): SortGroupFunction {
+    return createSortGroup(names, createCompareStrings(), sideEffectPlacement)
+}
@@ -0,0 +1,117 @@
+import { Comment, Statement } from "@babel/types"
+
+import { isTripleSlashDirective } from "./directives"
+import { isImportNode, parseCode, ParseImportsOptions } from "./parser"
+
+/** 标记顺序敏感代码的注释，其后的导入语句不会被提升到它的上方 */
+export const HOIST_BARRIER_COMMENT = "sort-imports-barrier"
+
+/** 文本中的一段范围 */
+interface TextRange {
+    start: number
+    end: number
+}
+
+/** 判断语句是否被标记为顺序敏感的代码 */
+function isBarrier(node: Statement): boolean {
+    return node.leadingComments?.some(comment => comment.value.trim() === HOIST_BARRIER_COMMENT) ?? false
+}
+
+/** 获取语句的结束位置，包括同一行的行尾注释 */
+function getNodeEnd(node: Statement): number {
+    let end = node.end ?? 0
+
+    for (const comment of node.trailingComments ?? []) {
+        if (comment.loc?.start.line === node.loc?.end.line) {
+            end = Math.max(end, comment.end ?? 0)
+        }
+    }
+
+    return end
+}
+
+/** 获取语句的起始位置，包括前一个语句之后的前导注释 */
+function getNodeStart(node: Statement, previousEndLine: number): number {
+    const comments = (node.leadingComments ?? []).filter((comment: Comment) => (comment.loc?.start.line ?? 0) > previousEndLine)
+
+    return Math.min(node.start ?? 0, ...comments.map(comment => comment.start ?? 0))
+}
+
+/** 获取文件开头插入导入语句的位置，与第一个语句之间有空行的注释和三斜线指令属于文件顶部，保留在原位 */
+function getInsertStart(node: Statement): number {
+    let start = node.start ?? 0
+    let startLine = node.loc?.start.line ?? 0
+
+    for (const comment of [...(node.leadingComments ?? [])].reverse()) {
+        if (isTripleSlashDirective(comment) || (comment.loc?.end.line ?? 0) < startLine - 1) {
+            break
+        }
+
+        start = comment.start ?? 0
+        startLine = comment.loc?.start.line ?? 0
+    }
+
+    return start
+}
+
+/** 将文件中分散的顶层导入语句连同注释提升到文件开头的导入语句块中，不会越过顺序敏感的代码 */
+export function hoistImports(code: string, options: ParseImportsOptions = {}): string {
+    const { body } = parseCode(code, options).program
+
+    // 文件开头的导入语句块
+    let leadingCount = 0
+
+    while (leadingCount < body.length && isImportNode(body[leadingCount])) {
+        leadingCount++
+    }
+
+    const ranges: TextRange[] = []
+
+    for (let i = leadingCount; i < body.length; i++) {
+        const node = body[i]
+
+        // 遇到顺序敏感的代码，后面的导入语句保持原位
+        if (isBarrier(node)) {
+            break
+        }
+
+        if (node.type !== "ImportDeclaration") {
+            continue
+        }
+
+        const previousEndLine = body[i - 1]?.loc?.end.line ?? 0
+        let end = getNodeEnd(node)
+
+        // 同时移除导入语句后的换行
+        if (code.startsWith("\r\n", end)) {
+            end += 2
+        } else if (code[end] === "\n") {
+            end++
+        }
+
+        ranges.push({ start: getNodeStart(node, previousEndLine), end })
+    }
+
+    if (ranges.length === 0) {
+        return code
+    }
+
+    const hoistedImports = ranges.map(({ start, end }) => code.slice(start, end).trimEnd()).join("\n")
+
+    // 从后往前移除，保证前面的位置不变
+    let result = code
+
+    for (const { start, end } of [...ranges].reverse()) {
+        result = result.slice(0, start) + result.slice(end)
+    }
+
+    // 插入到导入语句块之后，没有导入语句块时插入到文件开头
+    if (leadingCount > 0) {
+        const insertIndex = getNodeEnd(body[leadingCount - 1])
+        return `${result.slice(0, insertIndex)}\n${hoistedImports}${result.slice(insertIndex)}`
+    }
+
+    const insertIndex = getInsertStart(body[0])
+
+    return `${result.slice(0, insertIndex)}${hoistedImports}\n\n${result.slice(insertIndex)}`
+}
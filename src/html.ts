@@ -0,0 +1,35 @@
+import { getAttribute, preprocessIndentedScript, PreprocessScriptFunction } from "./sfc"
+
+/** 排序 HTML 中 <script type="module"> 的导入语句，再按原来的缩进拼接回去 */
+export function preprocessHtml(text: string, preprocessScript: PreprocessScriptFunction): string {
+    const scriptRegExp = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi
+
+    let result = ""
+    let lastIndex = 0
+
+    for (let match = scriptRegExp.exec(text); match; match = scriptRegExp.exec(text)) {
+        const [, attributes, code] = match
+
+        // 只有模块脚本可以包含导入语句
+        if (getAttribute(attributes, "type") !== "module" || getAttribute(attributes, "src") !== undefined || code.trim() === "") {
+            continue
+        }
+
+        const start = match.index + match[0].indexOf(">") + 1
+        const end = start + code.length
+
+        // 保留结束标签前的换行和缩进
+        const closingIndent = /\n[ \t]*$/.exec(code)?.[0] ?? ""
+
+        // 模块脚本是独立的作用域，不需要考虑页面其他部分使用的标识符
+        const processedCode = preprocessIndentedScript(code, dedentedCode => preprocessScript(dedentedCode, "babel", new Set()))
+
+        // 开始标签后的换行
+        const leadingNewline = code.startsWith("\n") && !processedCode.startsWith("\n") ? "\n" : ""
+
+        result += text.slice(lastIndex, start) + leadingNewline + processedCode + closingIndent
+        lastIndex = end
+    }
+
+    return result + text.slice(lastIndex)
+}
@@ -3,97 +3,223 @@ import { createRequire } from "module"
 import { ParserOptions, Plugin } from "prettier"
 
 import { removeUnusedImportsFromStatements } from "./analyzer"
+import { processTripleSlashDirectives } from "./directives"
 import { formatGroups, formatImportStatements } from "./formatter"
-import { parseImports } from "./parser"
-import { groupImports, mergeImports, sortGroups, sortImports } from "./sorter"
-import type { PluginConfig } from "./types"
+import { compileGroups, normalizeGroupOrder, normalizeGroups } from "./groups"
+import * as helpers from "./helpers"
+import { hoistImports } from "./hoister"
+import { preprocessHtml } from "./html"
+import { MARKDOWN_PARSERS, preprocessMarkdown } from "./markdown"
+import { checkParserPlugins, normalizeBabelPlugins, parseImportRegions } from "./parser"
+import { getGroupPreset } from "./presets"
+import { createImportTypeResolver } from "./resolver"
+import { COMPONENT_PARSERS, preprocessComponent } from "./sfc"
+import { createRelativeImportComparator, getStatementContext, groupImports, mergeImports, sortGroups, sortImportContents, sortImports } from "./sorter"
+import type { CollationConfig, ImportContext, ImportStatement, PluginConfig } from "./types"
 
 export * from "./types"
 
+export { createRelativeImportComparator, helpers }
+
 const require = createRequire(import.meta.url)
 
-/** 预处理导入语句 */
-function preprocessImports(text: string, options: ParserOptions & Partial<PluginConfig>, config: PluginConfig = {}): string {
+/** 排序并格式化一个导入语句块 */
+function formatImportRegion(text: string, imports: ImportStatement[], config: PluginConfig, context: ImportContext, usedIdentifiers?: Set<string>): string {
+    // 移除未使用的导入（如果配置了）
+    let processedImports = imports
+
+    if (config.removeUnusedImports) {
+        // 只分析当前导入语句块之外的代码
+        const firstImport = imports[0]
+        const lastImport = imports[imports.length - 1]
+        const codeWithoutImports = text.slice(0, firstImport.start ?? 0) + text.slice(lastImport.end ?? 0)
+        processedImports = removeUnusedImportsFromStatements(imports, codeWithoutImports, usedIdentifiers, {
+            parser: context.parser,
+            filepath: context.filepath,
+            babelPlugins: config.babelPlugins,
+        })
+    }
+
+    // 排序导入语句
+    const sortedImports = sortImports(processedImports, config, context)
+
+    // 合并来自同一模块的导入，配置了导入内容的排序规则时，合并后的导入内容按照规则重新排序
+    const mergedImports =
+        config.typeSpecifierPlacement || config.sortSpecifiersBy
+            ? mergeImports(sortedImports).map(statement => ({
+                  ...statement,
+                  importContents: sortImportContents(statement.importContents, config, getStatementContext(statement, context)),
+              }))
+            : mergeImports(sortedImports)
+
+    // 如果配置了分组函数，使用分组格式化
+    if (config.getGroup) {
+        const groups = groupImports(mergedImports, config, context)
+        const sortedGroups = sortGroups(groups, config, context)
+        return formatGroups(sortedGroups, config)
+    }
+
+    // 否则直接格式化
+    return formatImportStatements(mergedImports)
+}
+
+/** 为除第一行之外的非空行添加缩进，第一行的缩进保留在原文中 */
+function indentLines(code: string, indent: string): string {
+    return code
+        .split("\n")
+        .map((line, index) => (index === 0 || line.trim() === "" ? line : indent + line))
+        .join("\n")
+}
+
+/** 预处理导入语句，usedIdentifiers 为代码之外使用的标识符 */
+function preprocessImports(source: string, options: ParserOptions & Partial<PluginConfig>, config: PluginConfig = {}, usedIdentifiers?: Set<string>): string {
+    // 分组配置、分组顺序和 Babel 插件有误时直接报错，不能被下面解析失败的处理忽略
+    const groups = normalizeGroups(config.groups ?? (options as any).importSortGroups)
+    const groupOrder = normalizeGroupOrder(config.groupOrder ?? (options as any).importSortGroupOrder)
+    const babelPlugins = normalizeBabelPlugins(config.babelPlugins ?? (options as any).importSortBabelPlugins)
+    checkParserPlugins({ parser: options.parser as string, filepath: options.filepath, babelPlugins })
+
     try {
         // 只处理 JavaScript/TypeScript 文件
         const parser = options.parser
-        const supportedParsers = ["babel", "typescript", "babel-ts"]
+        const supportedParsers = ["babel", "typescript", "babel-ts", "flow", "babel-flow"]
 
         if (!parser || !supportedParsers.includes(parser as string)) {
-            return text
+            return source
+        }
+
+        // 构建配置（优先级：config > options > defaults）
+        const optionsConfig = options as any
+
+        // HTML 中的脚本已经在文档层面处理过，Markdown 和 MDX 的代码块在 Prettier 格式化嵌入的代码时排序
+        if (optionsConfig.parentParser === "html") {
+            return source
         }
 
-        // 解析导入语句
-        const imports = parseImports(text)
+        // 根据解析器和文件扩展名选择 Babel 的解析器插件
+        const commonjs = config.commonjs ?? optionsConfig.importSortCommonJS ?? false
+        const parseOptions = { parser: parser as string, filepath: options.filepath, babelPlugins, commonjs }
+
+        // 将分散的导入语句提升到文件开头的导入语句块中
+        const hoist = config.hoistImports ?? optionsConfig.importSortHoist ?? false
+        const hoistedText = hoist ? hoistImports(source, parseOptions) : source
+
+        // 去除重复的三斜线指令，它们始终保留在导入语句块的上方
+        const sortTripleSlashDirectives = config.sortTripleSlashDirectives ?? optionsConfig.importSortTripleSlashDirectives ?? false
+        const text = processTripleSlashDirectives(hoistedText, sortTripleSlashDirectives)
 
-        if (imports.length === 0) {
+        // 解析导入语句，默认只处理文件和 declare module 语句块开头的导入语句块
+        const sortAllImportRegions = config.sortAllImportRegions ?? optionsConfig.importSortAllRegions ?? false
+        const regions = parseImportRegions(text, parseOptions, sortAllImportRegions)
+
+        if (regions.length === 0) {
             return text
         }
 
-        // 构建配置（优先级：config > options > defaults）
-        const optionsConfig = options as any
+        // 根据 tsconfig.json 或 jsconfig.json 识别路径别名，开启 packageAware 时识别内部包
+        const packageAware = config.packageAware ?? optionsConfig.importSortPackageAware ?? false
+        const resolveImportType = createImportTypeResolver(options.filepath, packageAware)
+
+        // 记录导入语句在语句块中的原始索引，排序和合并后仍然可以通过上下文获取
+        for (const imports of regions) {
+            imports.forEach((statement, index) => {
+                statement.importType = resolveImportType(statement.path)
+                statement.index = index
+            })
+        }
+
+        // 传递给 getGroup 和排序函数的文件上下文
+        const context: ImportContext = {
+            filepath: options.filepath,
+            parser: parser as string,
+        }
+
+        const baseSeparator = config.separator ?? optionsConfig.importSortSeparator ?? optionsConfig.separator
+
+        // 默认排序使用的字符串比较规则
+        const collation: CollationConfig = {
+            locale: config.collation?.locale ?? (optionsConfig.importSortLocale || undefined),
+            numeric: config.collation?.numeric ?? optionsConfig.importSortNatural ?? false,
+            caseOrder: config.collation?.caseOrder ?? optionsConfig.importSortCaseOrder,
+        }
+
+        // 声明式的分组配置和分组预设只提供默认的 getGroup 和 sortGroup，声明式的分组配置优先，没有配置副作用分组的位置时排在最后
+        const sideEffectGroupPlacement = config.sideEffectGroupPlacement ?? optionsConfig.importSortSideEffectPlacement
+        const compiledGroups = groups ? compileGroups(groups, baseSeparator, collation, sideEffectGroupPlacement) : undefined
+        const groupPreset = config.groupPreset ?? optionsConfig.importSortGroupPreset
+        const preset = compiledGroups ?? (groupPreset ? getGroupPreset(groupPreset, collation, sideEffectGroupPlacement) : undefined)
 
+        // 显式的分组顺序优先于分组预设和声明式分组配置的顺序
         const finalConfig: PluginConfig = {
-            getGroup: config.getGroup ?? optionsConfig.getGroup,
-            sortGroup: config.sortGroup ?? optionsConfig.sortGroup,
+            getGroup: config.getGroup ?? optionsConfig.getGroup ?? preset?.getGroup,
+            sortGroup: config.sortGroup ?? optionsConfig.sortGroup ?? (groupOrder ? undefined : preset?.sortGroup),
+            groupOrder,
+            sideEffectGroupPlacement,
             sortImportStatement: config.sortImportStatement ?? optionsConfig.sortImportStatement,
             sortImportContent: config.sortImportContent ?? optionsConfig.sortImportContent,
-            separator: config.separator ?? optionsConfig.importSortSeparator ?? optionsConfig.separator,
+            typeSpecifierPlacement: config.typeSpecifierPlacement ?? optionsConfig.importSortTypeSpecifierPlacement,
+            sortSpecifiersBy: config.sortSpecifiersBy ?? optionsConfig.importSortSpecifiersBy,
+            collation,
+            relativeImports: {
+                order: config.relativeImports?.order ?? optionsConfig.importSortRelativeOrder,
+                indexLast: config.relativeImports?.indexLast ?? optionsConfig.importSortIndexLast ?? false,
+            },
+            separator: compiledGroups?.separator ?? baseSeparator,
             sortSideEffect: config.sortSideEffect ?? optionsConfig.importSortSideEffect ?? false,
-            removeUnusedImports: config.removeUnusedImports ?? optionsConfig.importSortRemoveUnused ?? false,
+            // 单文件组件中的脚本已经在组件层面处理过，Prettier 格式化嵌入的脚本时看不到模板，不能删除导入，Markdown 的代码块是独立的示例代码，同样不删除导入
+            removeUnusedImports:
+                !COMPONENT_PARSERS.includes(optionsConfig.parentParser) &&
+                !MARKDOWN_PARSERS.includes(optionsConfig.parentParser) &&
+                (config.removeUnusedImports ?? optionsConfig.importSortRemoveUnused ?? false),
+            normalizeAssert: config.normalizeAssert ?? optionsConfig.importSortNormalizeAssert ?? false,
+            babelPlugins,
         }
 
-        // 移除未使用的导入（如果配置了）
-        let processedImports = imports
-
-        if (finalConfig.removeUnusedImports) {
-            // 只分析导入语句之后的代码部分
-            const lastImport = imports[imports.length - 1]
-            const codeAfterImports = text.slice(lastImport.end ?? 0)
-            processedImports = removeUnusedImportsFromStatements(imports, codeAfterImports)
+        // 将旧的 assert 导入属性语法转换为 with
+        if (finalConfig.normalizeAssert) {
+            for (const statement of regions.flat()) {
+                if (statement.attributesKeyword === "assert") {
+                    statement.attributesKeyword = "with"
+                }
+            }
         }
 
-        // 排序导入语句
-        const sortedImports = sortImports(processedImports, finalConfig)
+        // 从后往前替换导入语句块，保证前面语句块的位置不变
+        let result = text
 
-        // 合并来自同一模块的导入
-        const mergedImports = mergeImports(sortedImports)
+        for (const imports of [...regions].reverse()) {
+            const formattedImports = formatImportRegion(text, imports, finalConfig, context, usedIdentifiers)
 
-        // 格式化导入语句
-        let formattedImports: string
+            // 获取导入块的起始和结束位置
+            const firstImport = imports[0]
+            const lastImport = imports[imports.length - 1]
 
-        // 如果配置了分组函数，使用分组格式化
-        if (finalConfig.getGroup) {
-            const groups = groupImports(mergedImports, finalConfig)
-            const sortedGroups = sortGroups(groups, finalConfig)
-            formattedImports = formatGroups(sortedGroups, finalConfig)
-        } else {
-            // 否则直接格式化
-            formattedImports = formatImportStatements(mergedImports)
-        }
+            const startIndex = firstImport.start ?? 0
+            const endIndex = lastImport.end ?? text.length
 
-        // 获取导入块的起始和结束位置
-        const firstImport = imports[0]
-        const lastImport = imports[imports.length - 1]
+            // 替换原始导入语句
+            const beforeImports = result.slice(0, startIndex)
 
-        const startIndex = firstImport.start ?? 0
-        const endIndex = lastImport.end ?? text.length
+            // declare module 语句块中的导入语句保留原有的缩进
+            const indent = /(?:^|\n)([ \t]*)$/.exec(beforeImports)?.[1] ?? ""
+            const indentedImports = indent ? indentLines(formattedImports, indent) : formattedImports
 
-        // 替换原始导入语句
-        const beforeImports = text.slice(0, startIndex)
+            const afterImports = result.slice(endIndex)
 
-        const afterImports = text.slice(endIndex)
+            // 确保导入语句后面有适当的换行
+            // 如果 afterImports 不是以换行开始,添加两个换行，已经有空行时不再添加
+            const needsExtraNewline = afterImports && !afterImports.startsWith("\n")
+            const hasEmptyLine = /^\r?\n[ \t]*\r?\n/.test(afterImports)
+            const separator = needsExtraNewline ? "\n\n" : hasEmptyLine ? "" : "\n"
 
-        // 确保导入语句后面有适当的换行
-        // 如果 afterImports 不是以换行开始,添加两个换行
-        const needsExtraNewline = afterImports && !afterImports.startsWith("\n")
-        const separator = needsExtraNewline ? "\n\n" : "\n"
+            result = beforeImports + indentedImports + separator + afterImports
+        }
 
-        return beforeImports + formattedImports + separator + afterImports
+        return result
     } catch (error) {
         // 如果解析失败，返回原始文本
         // 对于 Markdown 等文件中的代码块，解析失败是正常现象，不输出错误
-        return text
+        return source
     }
 }
 
@@ -107,16 +233,111 @@ const {
 } = require("prettier/parser-typescript")
 
 const {
-    parsers: { "babel-ts": babelTs },
+    parsers: { "babel-ts": babelTs, "babel-flow": babelFlow },
 } = require("prettier/parser-babel")
 
+const {
+    parsers: { flow },
+} = require("prettier/parser-flow")
+
+const {
+    parsers: { html, vue },
+} = require("prettier/parser-html")
+
+const {
+    parsers: { markdown, mdx },
+} = require("prettier/parser-markdown")
+
+/** 加载可选的插件中的解析器，插件没有安装时返回 undefined */
+function loadOptionalParser(pluginName: string, parserName: string): any {
+    try {
+        return require(pluginName).parsers?.[parserName]
+    } catch {
+        return undefined
+    }
+}
+
+/** 预处理文件，单文件组件、HTML 中的每个脚本片段分别处理，Markdown 中的每个 ESM 语句块和代码块分别处理 */
+function preprocessFile(text: string, options: any, config: PluginConfig): string {
+    if (options.parser === "html") {
+        return preprocessHtml(text, (code, parser, usedIdentifiers) => preprocessImports(code, { ...options, parser }, config, usedIdentifiers))
+    }
+
+    if (MARKDOWN_PARSERS.includes(options.parser)) {
+        // 代码块默认在 Prettier 格式化嵌入的代码时排序，关闭 embeddedLanguageFormatting 后只能在文档层面排序
+        const sortCodeBlocks = options.embeddedLanguageFormatting === "off" && (config.sortCodeBlocks ?? options.importSortCodeBlocks ?? false)
+
+        // 代码块是独立的示例代码，不删除未使用的导入
+        return preprocessMarkdown(text, options.parser, sortCodeBlocks, (code, parser, usedIdentifiers) =>
+            preprocessImports(code, { ...options, parser }, usedIdentifiers ? config : { ...config, removeUnusedImports: false }, usedIdentifiers),
+        )
+    }
+
+    if (COMPONENT_PARSERS.includes(options.parser)) {
+        return preprocessComponent(text, options.parser, (code, parser, usedIdentifiers) =>
+            preprocessImports(code, { ...options, parser }, config, usedIdentifiers),
+        )
+    }
+
+    return preprocessImports(text, options, config)
+}
+
+/** preprocess 函数 */
+type PreprocessFunction = (text: string, options: any) => string | Promise<string>
+
+/** 判断 preprocess 函数的返回值是否是 Promise */
+function isThenable(value: unknown): value is PromiseLike<string> {
+    return typeof (value as PromiseLike<string> | undefined)?.then === "function"
+}
+
+/** 输出 preprocess 函数的错误，出错的函数会被跳过 */
+function warnPreprocessError(error: unknown): void {
+    console.warn("Plugin preprocess failed:", error instanceof Error ? error.message : String(error))
+}
+
+/**
+ * 从 start 开始依次调用 preprocess 函数，只有某个函数返回 Promise 时才切换为异步
+ * Prettier 3.7 之前不会等待 preprocess 的返回值，所以默认情况下必须同步返回，返回 Promise 的其他插件需要 Prettier 3.7 及以上版本
+ */
+function chainPreprocess(preprocessFunctions: PreprocessFunction[], text: string, options: any, start = 0): string | Promise<string> {
+    let processedText = text
+
+    for (let index = start; index < preprocessFunctions.length; index++) {
+        let result: string | Promise<string>
+
+        try {
+            // 使用合并后的配置调用其他插件
+            result = preprocessFunctions[index](processedText, options)
+        } catch (error) {
+            warnPreprocessError(error)
+            continue
+        }
+
+        if (isThenable(result)) {
+            const previousText = processedText
+
+            return Promise.resolve(result).then(
+                nextText => chainPreprocess(preprocessFunctions, nextText, options, index + 1),
+                error => {
+                    warnPreprocessError(error)
+                    return chainPreprocess(preprocessFunctions, previousText, options, index + 1)
+                },
+            )
+        }
+
+        processedText = result
+    }
+
+    return processedText
+}
+
 /** 创建合并后的 preprocess 函数 */
 function createCombinedPreprocess(parserName: string, config: PluginConfig) {
-    return function combinedPreprocess(text: string, options: any): string {
+    return function combinedPreprocess(text: string, options: any): string | Promise<string> {
         const otherPlugins = config.otherPlugins || []
 
         if (otherPlugins.length === 0) {
-            return preprocessImports(text, options, config)
+            return preprocessFile(text, options, config)
         }
 
         // 获取合并后的配置选项
@@ -125,10 +346,10 @@ function createCombinedPreprocess(parserName: string, config: PluginConfig) {
         const mergedOptions = { ...options, ...prettierOptions }
 
         // 收集所有插件的 preprocess 函数
-        const preprocessFunctions: Array<(text: string, options: any) => string> = []
+        const preprocessFunctions: PreprocessFunction[] = []
 
         // 我们的 import 排序作为第一步（先排序导入）
-        preprocessFunctions.push((text: string, options: any) => preprocessImports(text, options, config))
+        preprocessFunctions.push((text: string, options: any) => preprocessFile(text, options, config))
 
         // 然后按传入顺序获取其他插件的 preprocess（如 Tailwind）
         for (const plugin of otherPlugins) {
@@ -140,18 +361,7 @@ function createCombinedPreprocess(parserName: string, config: PluginConfig) {
         }
 
         // 执行链式调用
-        let processedText = text
-
-        for (const preprocess of preprocessFunctions) {
-            try {
-                // 使用合并后的配置调用其他插件
-                processedText = preprocess(processedText, mergedOptions)
-            } catch (error) {
-                console.warn("Plugin preprocess failed:", error instanceof Error ? error.message : String(error))
-            }
-        }
-
-        return processedText
+        return chainPreprocess(preprocessFunctions, text, mergedOptions)
     }
 }
 
@@ -176,6 +386,185 @@ function createPluginInstance(config: PluginConfig = {}): Plugin {
             description: "是否删除未使用的导入",
             default: false,
         },
+        importSortGroupPreset: {
+            type: "choice",
+            category: "Import Sort",
+            description: "内置的分组预设",
+            choices: [
+                {
+                    value: "node",
+                    description: "按照 builtin、external、internal、relative 分组",
+                },
+                {
+                    value: "eslint-import-order",
+                    description: "按照 builtin、external、internal、parent、sibling、index 分组",
+                },
+            ],
+        },
+        importSortNormalizeAssert: {
+            type: "boolean",
+            category: "Import Sort",
+            description: "是否将旧的 assert 导入属性语法转换为 with",
+            default: false,
+        },
+        importSortPackageAware: {
+            type: "boolean",
+            category: "Import Sort",
+            description: "是否将 package.json imports 中的子路径和工作区中的包识别为 internal",
+            default: false,
+        },
+        importSortAllRegions: {
+            type: "boolean",
+            category: "Import Sort",
+            description: "是否排序文件中所有连续的导入语句块",
+            default: false,
+        },
+        importSortHoist: {
+            type: "boolean",
+            category: "Import Sort",
+            description: "是否将分散的导入语句提升到文件开头",
+            default: false,
+        },
+        importSortCommonJS: {
+            type: "boolean",
+            category: "Import Sort",
+            description: "是否排序文件开头的 CommonJS require 语句",
+            default: false,
+        },
+        importSortCodeBlocks: {
+            type: "boolean",
+            category: "Import Sort",
+            description: "关闭 embeddedLanguageFormatting 时是否仍然排序 Markdown 代码块中的导入语句",
+            default: false,
+        },
+        importSortGroups: {
+            type: "string",
+            category: "Import Sort",
+            description: "声明式的分组配置，按照数组顺序匹配和排序分组，命令行中使用 JSON 字符串",
+            exception: (value: unknown) => value === undefined || Array.isArray(value),
+        },
+        importSortTripleSlashDirectives: {
+            type: "boolean",
+            category: "Import Sort",
+            description: "是否排序文件开头的三斜线指令，types 排在 path 之前",
+            default: false,
+        },
+        importSortNatural: {
+            type: "boolean",
+            category: "Import Sort",
+            description: "是否按照数值大小比较路径和名称中的数字，比如 ./file2 排在 ./file10 之前",
+            default: false,
+        },
+        importSortCaseOrder: {
+            type: "choice",
+            category: "Import Sort",
+            description: "默认排序的大小写规则",
+            choices: [
+                {
+                    value: "case-insensitive",
+                    description: "忽略大小写",
+                },
+                {
+                    value: "upper-first",
+                    description: "其他字符相同时大写在前",
+                },
+                {
+                    value: "lower-first",
+                    description: "其他字符相同时小写在前",
+                },
+            ],
+        },
+        importSortLocale: {
+            type: "string",
+            category: "Import Sort",
+            description: "默认排序使用的语言，比如 en，默认使用运行环境的语言",
+        },
+        importSortRelativeOrder: {
+            type: "choice",
+            category: "Import Sort",
+            description: "相对路径导入按照目录层级的排序方式",
+            choices: [
+                {
+                    value: "farthest-first",
+                    description: "../../ 在 ../ 之前，../ 在 ./ 之前",
+                },
+                {
+                    value: "nearest-first",
+                    description: "./ 在 ../ 之前，../ 在 ../../ 之前",
+                },
+            ],
+        },
+        importSortIndexLast: {
+            type: "boolean",
+            category: "Import Sort",
+            description: "是否将当前目录的 index 文件排在其他相对路径导入之后",
+            default: false,
+        },
+        importSortGroupOrder: {
+            type: "string",
+            category: "Import Sort",
+            description: "分组的顺序，使用逗号分隔的分组名称或 JSON 数组，* 代表未列出的分组",
+            exception: (value: unknown) => value === undefined || Array.isArray(value),
+        },
+        importSortSideEffectPlacement: {
+            type: "choice",
+            category: "Import Sort",
+            description: "副作用分组的位置",
+            choices: [
+                {
+                    value: "first",
+                    description: "排在所有普通分组之前",
+                },
+                {
+                    value: "last",
+                    description: "排在所有普通分组之后",
+                },
+                {
+                    value: "mixed",
+                    description: "与普通分组一起按照分组顺序排序",
+                },
+            ],
+        },
+        importSortTypeSpecifierPlacement: {
+            type: "choice",
+            category: "Import Sort",
+            description: "花括号中 type 和 typeof 导入内容的位置",
+            choices: [
+                {
+                    value: "first",
+                    description: "排在普通导入内容之前",
+                },
+                {
+                    value: "last",
+                    description: "排在普通导入内容之后",
+                },
+                {
+                    value: "mixed",
+                    description: "与普通导入内容一起按照名称排序",
+                },
+            ],
+        },
+        importSortSpecifiersBy: {
+            type: "choice",
+            category: "Import Sort",
+            description: "导入内容排序使用的名称",
+            choices: [
+                {
+                    value: "local",
+                    description: "最终导入的名称，有别名时使用别名",
+                },
+                {
+                    value: "imported",
+                    description: "模块中导出的名称",
+                },
+            ],
+        },
+        importSortBabelPlugins: {
+            type: "string",
+            category: "Import Sort",
+            description: "额外的 Babel 解析器插件，使用逗号分隔的插件名称或 JSON 数组",
+            exception: (value: unknown) => value === undefined || Array.isArray(value),
+        },
     }
 
     // 合并其他插件的 options
@@ -202,9 +591,21 @@ function createPluginInstance(config: PluginConfig = {}): Plugin {
     const mergedParsers: Record<string, any> = {}
 
     // 对每个 parser，合并所有插件的定义
-    const parserNames = ["babel", "typescript", "babel-ts"]
+    const baseParsers: Record<string, any> = { babel, typescript, "babel-ts": babelTs, flow, "babel-flow": babelFlow, vue, html, markdown, mdx }
+
+    // Svelte 和 Astro 的解析器来自可选的插件，只在插件存在时处理
+    const optionalParsers: Record<string, any> = {
+        svelte: loadOptionalParser("prettier-plugin-svelte", "svelte"),
+        astro: loadOptionalParser("prettier-plugin-astro", "astro"),
+    }
+
+    for (const [parserName, parser] of Object.entries(optionalParsers)) {
+        if (parser || otherPlugins.some(plugin => plugin?.parsers?.[parserName])) {
+            baseParsers[parserName] = parser
+        }
+    }
 
-    const baseParsers: Record<string, any> = { babel, typescript, "babel-ts": babelTs }
+    const parserNames = Object.keys(baseParsers)
 
     for (const parserName of parserNames) {
         const baseParser = baseParsers[parserName]
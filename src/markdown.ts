@@ -0,0 +1,119 @@
+import { collectMarkupIdentifiers, preprocessIndentedScript, PreprocessScriptFunction } from "./sfc"
+
+/** Markdown 和 MDX 的解析器 */
+export const MARKDOWN_PARSERS = ["markdown", "mdx"]
+
+/** 代码块语言对应的解析器 */
+const CODE_BLOCK_PARSERS: Record<string, string> = {
+    ts: "typescript",
+    tsx: "typescript",
+    mts: "typescript",
+    cts: "typescript",
+    typescript: "typescript",
+    js: "babel",
+    jsx: "babel",
+    mjs: "babel",
+    cjs: "babel",
+    javascript: "babel",
+}
+
+/** Markdown 中包含导入语句的片段 */
+interface MarkdownSection {
+    /** 片段在文件中的起始位置 */
+    start: number
+    /** 片段在文件中的结束位置 */
+    end: number
+    /** 用于解析片段的解析器 */
+    parser: string
+    /** 是否是代码块，代码块是独立的示例代码 */
+    isCodeBlock: boolean
+}
+
+/** 查找 MDX 顶层的 ESM 语句块和代码块，ESM 语句块以 import 或 export 开头，到空行结束 */
+function findMarkdownSections(text: string, parser: string, sortCodeBlocks: boolean): MarkdownSection[] {
+    const sections: MarkdownSection[] = []
+
+    let offset = 0
+    let fence: { marker: string; section?: MarkdownSection } | undefined
+    let esmSection: MarkdownSection | undefined
+    let isPreviousLineBlank = true
+
+    for (const line of text.split("\n")) {
+        const lineEnd = offset + line.length
+        const trimmedLine = line.trim()
+
+        if (fence) {
+            // 代码块结束
+            if (trimmedLine.startsWith(fence.marker) && trimmedLine.slice(fence.marker.length).trim() === "") {
+                if (fence.section) {
+                    fence.section.end = offset
+                    sections.push(fence.section)
+                }
+
+                fence = undefined
+            }
+        } else if (esmSection) {
+            if (trimmedLine === "") {
+                sections.push(esmSection)
+                esmSection = undefined
+            } else {
+                esmSection.end = lineEnd
+            }
+        } else {
+            const fenceMatch = /^(`{3,}|~{3,})\s*([\w+-]*)/.exec(trimmedLine)
+
+            if (fenceMatch) {
+                const codeBlockParser = CODE_BLOCK_PARSERS[fenceMatch[2].toLowerCase()]
+
+                fence = {
+                    marker: fenceMatch[1],
+                    section:
+                        sortCodeBlocks && codeBlockParser ? { start: lineEnd + 1, end: lineEnd + 1, parser: codeBlockParser, isCodeBlock: true } : undefined,
+                }
+            } else if (parser === "mdx" && isPreviousLineBlank && /^(import|export)\b/.test(line)) {
+                esmSection = { start: offset, end: lineEnd, parser: "babel", isCodeBlock: false }
+            }
+        }
+
+        isPreviousLineBlank = trimmedLine === ""
+        offset = lineEnd + 1
+    }
+
+    if (esmSection) {
+        sections.push(esmSection)
+    }
+
+    return sections
+}
+
+/** 排序 MDX 顶层的 ESM 语句块，sortCodeBlocks 为 true 时同时排序代码块中的导入语句 */
+export function preprocessMarkdown(text: string, parser: string, sortCodeBlocks: boolean, preprocessScript: PreprocessScriptFunction): string {
+    const sections = findMarkdownSections(text, parser, sortCodeBlocks)
+
+    let result = text
+
+    // 从后往前替换，保证前面片段的位置不变
+    for (const section of [...sections].reverse()) {
+        const code = text.slice(section.start, section.end)
+
+        if (code.trim() === "") {
+            continue
+        }
+
+        if (!section.isCodeBlock) {
+            // ESM 语句块中的导入可能在文档的其他部分使用
+            const usedIdentifiers = collectMarkupIdentifiers(text.slice(0, section.start) + text.slice(section.end))
+            const processedCode = preprocessScript(code, section.parser, usedIdentifiers).trimEnd()
+
+            result = result.slice(0, section.start) + processedCode + result.slice(section.end)
+            continue
+        }
+
+        // 列表等结构中的代码块带有缩进
+        const processedCode = preprocessIndentedScript(code, dedentedCode => preprocessScript(dedentedCode, section.parser))
+
+        result = result.slice(0, section.start) + processedCode + "\n" + result.slice(section.end)
+    }
+
+    return result
+}
@@ -1,60 +1,409 @@
-import { parse } from "@babel/parser"
-import { Comment, ExportAllDeclaration, ExportNamedDeclaration, ImportDeclaration } from "@babel/types"
-
-import { ImportContent, ImportStatement } from "./types"
+import { parse, ParserPlugin } from "@babel/parser"
+import {
+    Comment,
+    ExportAllDeclaration,
+    ExportNamedDeclaration,
+    Expression,
+    ExpressionStatement,
+    ImportDeclaration,
+    Statement,
+    TSImportEqualsDeclaration,
+    TSModuleDeclaration,
+    VariableDeclaration,
+} from "@babel/types"
+
+import { isTripleSlashDirective } from "./directives"
+import { ImportAttribute, ImportContent, ImportStatement } from "./types"
+
+/** 导入/导出语句块中的 ES 模块语句 */
+type ImportNode = ImportDeclaration | ExportNamedDeclaration | ExportAllDeclaration | TSImportEqualsDeclaration
+
+/** CommonJS 的 require 语句，比如 const x = require("x") 和 require("x") */
+type RequireNode = VariableDeclaration | ExpressionStatement
+
+/** 解析导入语句的选项 */
+export interface ParseImportsOptions {
+    /** Prettier 的解析器，用于选择 Babel 的语法插件 */
+    parser?: string
+    /** 文件路径，用于根据扩展名判断是否启用 JSX */
+    filepath?: string
+    /** 额外的 Babel 解析器插件，同名插件会覆盖默认的配置 */
+    babelPlugins?: ParserPlugin[]
+    /** 是否同时识别 CommonJS 的 require 语句 */
+    commonjs?: boolean
+}
 
-/** 解析导入语句 */
+/** 使用 Flow 语法的解析器 */
+const FLOW_PARSERS = ["flow", "babel-flow"]
+
+/** Babel 支持的解析器插件名称，Babel 本身不会检查插件名称 */
+const BABEL_PLUGIN_NAMES = [
+    "asyncDoExpressions",
+    "asyncGenerators",
+    "bigInt",
+    "classPrivateMethods",
+    "classPrivateProperties",
+    "classProperties",
+    "classStaticBlock",
+    "decimal",
+    "decorators",
+    "decorators-legacy",
+    "decoratorAutoAccessors",
+    "deferredImportEvaluation",
+    "deprecatedImportAssert",
+    "destructuringPrivate",
+    "discardBinding",
+    "doExpressions",
+    "dynamicImport",
+    "estree",
+    "explicitResourceManagement",
+    "exportDefaultFrom",
+    "exportNamespaceFrom",
+    "flow",
+    "flowComments",
+    "functionBind",
+    "functionSent",
+    "importAssertions",
+    "importAttributes",
+    "importMeta",
+    "importReflection",
+    "jsonStrings",
+    "jsx",
+    "logicalAssignment",
+    "moduleAttributes",
+    "moduleBlocks",
+    "moduleStringNames",
+    "nullishCoalescingOperator",
+    "numericSeparator",
+    "objectRestSpread",
+    "optionalCatchBinding",
+    "optionalChaining",
+    "optionalChainingAssign",
+    "partialApplication",
+    "pipelineOperator",
+    "placeholders",
+    "privateIn",
+    "recordAndTuple",
+    "regexpUnicodeSets",
+    "sourcePhaseImports",
+    "throwExpressions",
+    "topLevelAwait",
+    "typescript",
+    "v8intrinsic",
+]
+
+/** 已经通过 Babel 校验的插件配置 */
+const validatedPluginKeys = new Set<string>()
+
+/** 不支持 JSX 的文件扩展名，这些文件中的 <T>value 是类型断言 */
+const NON_JSX_EXTENSIONS = [".ts", ".mts", ".cts"]
+
+/** 解析文件和 declare module、namespace 语句块中的导入/导出语句块，allRegions 为 false 时只处理每个语句块开头的导入语句 */
+export function parseImportRegions(code: string, options: ParseImportsOptions = {}, allRegions = true): ImportStatement[][] {
+    const { commonjs = false } = options
 
-export function parseImports(code: string): ImportStatement[] {
     // 首先快速检查是否有导入/导出语句
     // 如果没有，直接返回空数组，避免 attachComment 导致的问题
-    const hasImportOrExport = /^\s*(import|export)\s/m.test(code)
+    const hasImportOrExport = /^\s*(import|export)\s/m.test(code) || (commonjs && /\brequire\s*\(/.test(code))
 
     if (!hasImportOrExport) {
         return []
     }
 
-    const ast = parse(code, {
-        sourceType: "module",
-        plugins: ["typescript", "jsx"],
-        errorRecovery: true, // 允许解析有语法错误的代码
-        attachComment: true, // 将注释附加到 AST 节点
-    })
-
-    const importStatements: ImportStatement[] = []
-
-    const { body } = ast.program
+    const ast = parseCode(code, options)
 
     // 跟踪已使用的注释，避免重复
     const usedComments = new Set<Comment>()
 
-    // 只处理文件开头的连续导入/导出语句块
+    const regions = collectStatementRegions(ast.program.body, allRegions, commonjs, ast.comments ?? [], usedComments, code)
+
+    // declare module "x" {} 和 namespace 语句块中的导入语句与文件开头的导入语句一样处理
+    for (const block of collectModuleBlocks(ast.program.body)) {
+        regions.push(...collectStatementRegions(block, allRegions, false, ast.comments ?? [], usedComments, code))
+    }
+
+    // 按照在文件中的位置排序，保证从后往前替换时位置不变
+    return regions.sort((a, b) => (a[0].start ?? 0) - (b[0].start ?? 0))
+}
+
+/** 递归查找 declare module 和 namespace 语句块的语句列表 */
+function collectModuleBlocks(body: Statement[]): Statement[][] {
+    const blocks: Statement[][] = []
+
+    for (const node of body) {
+        const declaration = node.type === "ExportNamedDeclaration" ? node.declaration : node
+
+        if (declaration?.type !== "TSModuleDeclaration") {
+            continue
+        }
+
+        // namespace A.B {} 的语句块在嵌套的 TSModuleDeclaration 中
+        let moduleBody: TSModuleDeclaration["body"] | undefined = declaration.body
+
+        while (moduleBody?.type === "TSModuleDeclaration") {
+            moduleBody = moduleBody.body
+        }
+
+        // declare module "x" 的简写形式没有语句块
+        if (!moduleBody) {
+            continue
+        }
+
+        blocks.push(moduleBody.body, ...collectModuleBlocks(moduleBody.body))
+    }
+
+    return blocks
+}
+
+/** 收集语句列表中的导入/导出语句块，allRegions 为 false 时遇到第一个非导入语句就停止 */
+function collectStatementRegions(
+    body: Statement[],
+    allRegions: boolean,
+    commonjs: boolean,
+    comments: Comment[],
+    usedComments: Set<Comment>,
+    code: string,
+): ImportStatement[][] {
+    const regions: ImportStatement[][] = []
+
+    let importStatements: ImportStatement[] = []
+
+    // 只处理开头的连续导入/导出语句块
     let isFirstImport = true
 
     for (const node of body) {
-        if (node.type === "ImportDeclaration" || (node.type === "ExportNamedDeclaration" && node.source) || node.type === "ExportAllDeclaration") {
-            const statement = parseImportNode(node, ast.comments ?? [], usedComments, code, isFirstImport)
+        if (isImportNode(node) || (commonjs && isRequireNode(node))) {
+            const statement = parseImportNode(node, comments, usedComments, code, isFirstImport)
             importStatements.push(statement)
             isFirstImport = false
+        } else if (allRegions) {
+            // 遇到非导入/导出语句，结束当前语句块，后面的导入语句属于新的语句块
+            if (importStatements.length > 0) {
+                regions.push(importStatements)
+                importStatements = []
+            }
+
+            // 与代码在同一行的行尾注释属于代码，不能作为下一个导入语句的前导注释
+            for (const comment of node.trailingComments ?? []) {
+                if (comment.loc?.start.line === node.loc?.end.line) {
+                    usedComments.add(comment)
+                }
+            }
+
+            isFirstImport = true
         } else {
             // 遇到非导入/导出语句，停止处理
             break
         }
     }
 
-    return importStatements
+    if (importStatements.length > 0) {
+        regions.push(importStatements)
+    }
+
+    return regions
+}
+
+/** 根据 Prettier 的解析器和文件扩展名获取 Babel 的解析器插件，flow 和 babel-flow 使用 Flow 语法，其他的使用 TypeScript 语法，.ts 文件不启用 JSX */
+export function getParserPlugins({ parser, filepath, babelPlugins = [] }: ParseImportsOptions = {}): ParserPlugin[] {
+    const syntaxPlugin: ParserPlugin = parser && FLOW_PARSERS.includes(parser) ? ["flow", { all: true }] : "typescript"
+    const isJsx = !filepath || !NON_JSX_EXTENSIONS.some(extension => filepath.toLowerCase().endsWith(extension))
+
+    // Angular、NestJS 等项目使用的是 TypeScript 的旧版装饰器，支持参数装饰器
+    const plugins: ParserPlugin[] = [
+        syntaxPlugin,
+        ...(isJsx ? ["jsx" as const] : []),
+        "decorators-legacy",
+        "deprecatedImportAssert",
+        "sourcePhaseImports",
+        "deferredImportEvaluation",
+    ]
+
+    // 额外的插件覆盖同名的默认插件，decorators 和 decorators-legacy 不能同时启用
+    const extraNames = babelPlugins.map(getPluginName)
+    const overridden = extraNames.includes("decorators") ? [...extraNames, "decorators-legacy"] : extraNames
+
+    return [...plugins.filter(plugin => !overridden.includes(getPluginName(plugin))), ...babelPlugins]
+}
+
+/** 校验 Babel 插件的格式和名称，插件必须是名称或者 [名称, 配置] */
+function validateBabelPlugins(plugins: unknown): ParserPlugin[] {
+    if (!Array.isArray(plugins)) {
+        throw new Error("Invalid import sort Babel plugins: expected an array of plugins")
+    }
+
+    for (const plugin of plugins) {
+        const name = Array.isArray(plugin) ? plugin[0] : plugin
+
+        if (typeof name !== "string" || (Array.isArray(plugin) && (plugin.length !== 2 || typeof plugin[1] !== "object" || plugin[1] === null))) {
+            throw new Error(`Invalid import sort Babel plugins: expected a plugin name or [name, options], got ${JSON.stringify(plugin)}`)
+        }
+
+        if (!BABEL_PLUGIN_NAMES.includes(name)) {
+            throw new Error(`Invalid import sort Babel plugins: unknown plugin "${name}"`)
+        }
+    }
+
+    return plugins
+}
+
+/** 将 Prettier 选项中的 Babel 插件统一转换为数组并校验，支持逗号分隔的插件名称和 JSON 数组 */
+export function normalizeBabelPlugins(value: unknown): ParserPlugin[] | undefined {
+    if (Array.isArray(value)) {
+        return validateBabelPlugins(value)
+    }
+
+    if (typeof value !== "string" || !value.trim()) {
+        return undefined
+    }
+
+    if (value.trim().startsWith("[")) {
+        let parsed: unknown
+
+        try {
+            parsed = JSON.parse(value)
+        } catch (error) {
+            throw new Error(`Invalid import sort Babel plugins: ${error instanceof Error ? error.message : String(error)}`)
+        }
+
+        return validateBabelPlugins(parsed)
+    }
+
+    return validateBabelPlugins(
+        value
+            .split(",")
+            .map(name => name.trim())
+            .filter(Boolean),
+    )
+}
+
+/** 使用 Babel 检查额外插件的配置，比如 pipelineOperator 缺少 proposal，相同的插件组合只检查一次 */
+export function checkParserPlugins(options: ParseImportsOptions): void {
+    if (!options.babelPlugins?.length) {
+        return
+    }
+
+    const plugins = getParserPlugins(options)
+    const key = JSON.stringify(plugins)
+
+    if (validatedPluginKeys.has(key)) {
+        return
+    }
+
+    try {
+        parse("", { sourceType: "module", plugins })
+    } catch (error) {
+        throw new Error(`Invalid import sort Babel plugins: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    validatedPluginKeys.add(key)
+}
+
+/** 获取 Babel 解析器插件的名称 */
+function getPluginName(plugin: ParserPlugin): string {
+    return typeof plugin === "string" ? plugin : plugin[0]
+}
+
+/** 使用 Babel 解析代码，并将注释附加到 AST 节点 */
+export function parseCode(code: string, options: ParseImportsOptions = {}) {
+    return parse(code, {
+        sourceType: "module",
+        plugins: getParserPlugins(options),
+        errorRecovery: true, // 允许解析有语法错误的代码
+        attachComment: true, // 将注释附加到 AST 节点
+    })
+}
+
+/** 判断是否是导入/导出语句块中的语句 */
+export function isImportNode(node: Statement): node is ImportNode {
+    return (
+        node.type === "ImportDeclaration" ||
+        (node.type === "ExportNamedDeclaration" && !!node.source) ||
+        node.type === "ExportAllDeclaration" ||
+        isExternalImportEquals(node)
+    )
+}
+
+/** 判断是否是引用外部模块的 import x = require() 语句，import x = A.B 这种命名空间别名不属于导入语句块 */
+function isExternalImportEquals(node: Statement): node is TSImportEqualsDeclaration {
+    return node.type === "TSImportEqualsDeclaration" && node.moduleReference.type === "TSExternalModuleReference"
+}
+
+/** 获取 require("x") 调用的模块路径，不是 require 调用时返回 undefined */
+function getRequireCallSource(expression: Expression | null | undefined): string | undefined {
+    if (
+        expression?.type !== "CallExpression" ||
+        expression.callee.type !== "Identifier" ||
+        expression.callee.name !== "require" ||
+        expression.arguments.length !== 1 ||
+        expression.arguments[0].type !== "StringLiteral"
+    ) {
+        return undefined
+    }
+
+    return expression.arguments[0].value
+}
+
+/** 获取 require 语句的模块路径，只识别单个变量声明，解构时只支持简单的属性和重命名 */
+function getRequireSource(node: Statement): string | undefined {
+    if (node.type === "ExpressionStatement") {
+        return getRequireCallSource(node.expression)
+    }
+
+    if (node.type !== "VariableDeclaration" || !["const", "let", "var"].includes(node.kind) || node.declarations.length !== 1) {
+        return undefined
+    }
+
+    const [{ id, init }] = node.declarations
+
+    if (id.type === "ObjectPattern") {
+        const isSimplePattern =
+            id.properties.length > 0 &&
+            id.properties.every(
+                property =>
+                    property.type === "ObjectProperty" &&
+                    !property.computed &&
+                    (property.key.type === "Identifier" || property.key.type === "StringLiteral") &&
+                    property.value.type === "Identifier",
+            )
+
+        if (!isSimplePattern) {
+            return undefined
+        }
+    } else if (id.type !== "Identifier") {
+        return undefined
+    }
+
+    return getRequireCallSource(init)
+}
+
+/** 判断是否是 CommonJS 的 require 语句 */
+function isRequireNode(node: Statement): node is RequireNode {
+    return getRequireSource(node) !== undefined
+}
+
+/** 获取导入语句的模块路径 */
+function getImportSource(node: ImportNode | RequireNode): string {
+    if (node.type === "VariableDeclaration" || node.type === "ExpressionStatement") {
+        return getRequireSource(node) ?? ""
+    }
+
+    if (node.type === "TSImportEqualsDeclaration") {
+        return node.moduleReference.type === "TSExternalModuleReference" ? node.moduleReference.expression.value : ""
+    }
+
+    return node.source?.value ?? ""
 }
 
 /** 解析单个导入节点 */
 function parseImportNode(
-    node: ImportDeclaration | ExportNamedDeclaration | ExportAllDeclaration,
+    node: ImportNode | RequireNode,
     comments: Comment[],
     usedComments: Set<Comment>,
     code: string,
     isFirstImport: boolean,
 ): ImportStatement {
-    const isExport = node.type !== "ImportDeclaration"
-    const source = node.source?.value ?? ""
+    const source = getImportSource(node)
 
     // 获取节点所在的行号和位置
     const nodeStartLine = node.loc?.start.line ?? 0
@@ -74,15 +423,19 @@ function parseImportNode(
     if (node.leadingComments) {
         let lastCommentEndLine = 0
 
+        // 三斜线指令和它之前的注释都属于文件顶部
+        const directives = isFirstImport ? node.leadingComments.filter(isTripleSlashDirective) : []
+        const directivesEnd = Math.max(-1, ...directives.map(comment => comment.end ?? 0))
+
         for (const comment of node.leadingComments) {
             if (!usedComments.has(comment)) {
                 const commentEndLine = comment.loc?.end.line ?? 0
 
                 // 如果是第一个 import 且注释和节点之间有空行，则该注释属于文件顶部
-                // 不应该作为 import 的前导注释
+                // 不应该作为 import 的前导注释，Flow 的 @flow 注释也必须保留在文件顶部
                 const emptyLinesBetween = nodeStartLine - commentEndLine - 1
 
-                if (isFirstImport && emptyLinesBetween >= 1) {
+                if ((comment.end ?? 0) <= directivesEnd || (isFirstImport && (emptyLinesBetween >= 1 || /^[\s*]*@(no)?flow\b/.test(comment.value)))) {
                     // 这是文件顶部注释，不添加为 leadingComments
                     // 但需要标记为已使用，避免被后续节点捕获
                     usedComments.add(comment)
@@ -146,10 +499,54 @@ function parseImportNode(
 
     const end = nodeEnd
 
+    // 处理 CommonJS 的 require 语句，没有声明变量的 require("x") 视为副作用导入
+    if (node.type === "VariableDeclaration" || node.type === "ExpressionStatement") {
+        const importContents = node.type === "VariableDeclaration" ? parseRequireContents(node) : []
+
+        return {
+            path: source,
+            isExport: false,
+            isSideEffect: importContents.length === 0,
+            isRequire: true,
+            declarationKind: node.type === "VariableDeclaration" ? (node.kind as ImportStatement["declarationKind"]) : undefined,
+            importContents,
+            leadingComments: leadingComments.length > 0 ? leadingComments : undefined,
+            trailingComments: trailingComments.length > 0 ? trailingComments : undefined,
+            emptyLinesAfterComments: emptyLinesAfterComments > 0 ? emptyLinesAfterComments : undefined,
+            start,
+            end,
+        }
+    }
+
+    // 处理 import x = require() 语句，导入的内容视为命名空间导入，这样不会与其他语句合并
+    if (node.type === "TSImportEqualsDeclaration") {
+        return {
+            path: source,
+            isExport: node.isExport,
+            isSideEffect: false,
+            isImportEquals: true,
+            importContents: [
+                {
+                    name: "*",
+                    alias: node.id.name,
+                    type: node.importKind === "type" ? "type" : "variable",
+                },
+            ],
+            leadingComments: leadingComments.length > 0 ? leadingComments : undefined,
+            trailingComments: trailingComments.length > 0 ? trailingComments : undefined,
+            emptyLinesAfterComments: emptyLinesAfterComments > 0 ? emptyLinesAfterComments : undefined,
+            start,
+            end,
+        }
+    }
+
+    // 处理导入属性
+    const attributes = parseImportAttributes(node)
+    const attributesKeyword = attributes ? (node.extra?.deprecatedAssertSyntax ? "assert" : "with") : undefined
+
     // 处理 import 语句
     if (node.type === "ImportDeclaration") {
-        const isTypeOnlyImport = node.importKind === "type"
-        const importContents = parseImportSpecifiers(node, isTypeOnlyImport)
+        const importContents = parseImportSpecifiers(node, getImportKind(node.importKind))
         const isSideEffect = importContents.length === 0
 
         return {
@@ -157,30 +554,36 @@ function parseImportNode(
             isExport: false,
             isSideEffect,
             importContents,
+            phase: node.phase ?? undefined,
             leadingComments: leadingComments.length > 0 ? leadingComments : undefined,
             trailingComments: trailingComments.length > 0 ? trailingComments : undefined,
             emptyLinesAfterComments: emptyLinesAfterComments > 0 ? emptyLinesAfterComments : undefined,
+            attributes,
+            attributesKeyword,
             start,
             end,
         }
     }
 
-    // 处理 export * from 语句
+    // 处理 export * from 和 export type * from 语句
     if (node.type === "ExportAllDeclaration") {
         return {
             path: source,
             isExport: true,
             isSideEffect: true, // export * from 应该被视为副作用导出
+            isTypeOnly: node.exportKind === "type" ? true : undefined,
             importContents: [],
             leadingComments: leadingComments.length > 0 ? leadingComments : undefined,
             trailingComments: trailingComments.length > 0 ? trailingComments : undefined,
             emptyLinesAfterComments: emptyLinesAfterComments > 0 ? emptyLinesAfterComments : undefined,
+            attributes,
+            attributesKeyword,
             start,
             end,
         }
     }
 
-    // 处理 export { ... } from 语句
+    // 处理 export { ... } from 和 export * as ns from 语句
     const isTypeOnlyExport = node.exportKind === "type"
     const importContents = parseExportSpecifiers(node, isTypeOnlyExport)
 
@@ -192,13 +595,81 @@ function parseImportNode(
         leadingComments: leadingComments.length > 0 ? leadingComments : undefined,
         trailingComments: trailingComments.length > 0 ? trailingComments : undefined,
         emptyLinesAfterComments: emptyLinesAfterComments > 0 ? emptyLinesAfterComments : undefined,
+        attributes,
+        attributesKeyword,
         start,
         end,
     }
 }
 
-/** 解析导入说明符 */
-function parseImportSpecifiers(node: ImportDeclaration, isTypeOnlyImport: boolean = false): ImportContent[] {
+/** 解析导入属性，没有导入属性时返回 undefined */
+function parseImportAttributes(node: ImportDeclaration | ExportNamedDeclaration | ExportAllDeclaration): ImportAttribute[] | undefined {
+    // 旧版本的 Babel 将 assert 语法解析到 assertions 中
+    const attributes = node.attributes ?? node.assertions
+
+    if (!attributes || attributes.length === 0) {
+        return undefined
+    }
+
+    return attributes.map(attribute => ({
+        key: attribute.key.type === "Identifier" ? attribute.key.name : attribute.key.value,
+        value: attribute.value.value,
+    }))
+}
+
+/** 将注释转换为源代码中的形式 */
+function getCommentTexts(comments: Comment[] | null | undefined): string[] | undefined {
+    const texts = (comments ?? []).map(comment => (comment.type === "CommentLine" ? `//${comment.value}` : `/*${comment.value}*/`))
+
+    return texts.length > 0 ? texts : undefined
+}
+
+/** 解析 require 语句声明的内容，整个模块视为命名空间导入，解构的属性视为命名导入 */
+function parseRequireContents(node: VariableDeclaration): ImportContent[] {
+    const [{ id }] = node.declarations
+
+    if (id.type === "Identifier") {
+        return [{ name: "*", alias: id.name, type: "variable" }]
+    }
+
+    const contents: ImportContent[] = []
+
+    if (id.type !== "ObjectPattern") {
+        return contents
+    }
+
+    for (const property of id.properties) {
+        // getRequireSource 已经限制属性名只能是标识符或字符串，这里的判断用于收窄类型
+        if (
+            property.type !== "ObjectProperty" ||
+            property.value.type !== "Identifier" ||
+            (property.key.type !== "Identifier" && property.key.type !== "StringLiteral")
+        ) {
+            continue
+        }
+
+        const name = property.key.type === "StringLiteral" ? property.key.value : property.key.name
+        const localName = property.value.name
+
+        contents.push({
+            name,
+            alias: name !== localName ? localName : undefined,
+            type: "variable",
+            leadingComments: getCommentTexts(property.leadingComments),
+            trailingComments: getCommentTexts(property.trailingComments),
+        })
+    }
+
+    return contents
+}
+
+/** 将 Babel 的 importKind 转换为导入内容的类型 */
+function getImportKind(importKind: string | null | undefined): ImportContent["type"] {
+    return importKind === "type" || importKind === "typeof" ? importKind : "variable"
+}
+
+/** 解析导入说明符，importKind 为整个导入语句的类型，比如 import type 和 Flow 的 import typeof */
+function parseImportSpecifiers(node: ImportDeclaration, importKind: ImportContent["type"] = "variable"): ImportContent[] {
     const contents: ImportContent[] = []
 
     for (const specifier of node.specifiers) {
@@ -234,7 +705,7 @@ function parseImportSpecifiers(node: ImportDeclaration, isTypeOnlyImport: boolea
             contents.push({
                 name: "default",
                 alias: specifier.local.name,
-                type: isTypeOnlyImport ? "type" : "variable",
+                type: importKind,
                 leadingComments: leadingComments.length > 0 ? leadingComments : undefined,
                 trailingComments: trailingComments.length > 0 ? trailingComments : undefined,
             })
@@ -243,7 +714,7 @@ function parseImportSpecifiers(node: ImportDeclaration, isTypeOnlyImport: boolea
             contents.push({
                 name: "*",
                 alias: specifier.local.name,
-                type: isTypeOnlyImport ? "type" : "variable",
+                type: importKind,
                 leadingComments: leadingComments.length > 0 ? leadingComments : undefined,
                 trailingComments: trailingComments.length > 0 ? trailingComments : undefined,
             })
@@ -251,12 +722,10 @@ function parseImportSpecifiers(node: ImportDeclaration, isTypeOnlyImport: boolea
             // 命名导入
             const importedName = specifier.imported.type === "Identifier" ? specifier.imported.name : (specifier.imported as any).value
             const localName = specifier.local.name
-            const isTypeImport = isTypeOnlyImport || specifier.importKind === "type"
-
             contents.push({
                 name: importedName,
                 alias: importedName !== localName ? localName : undefined,
-                type: isTypeImport ? "type" : "variable",
+                type: importKind !== "variable" ? importKind : getImportKind(specifier.importKind),
                 leadingComments: leadingComments.length > 0 ? leadingComments : undefined,
                 trailingComments: trailingComments.length > 0 ? trailingComments : undefined,
             })
@@ -275,6 +744,17 @@ function parseExportSpecifiers(node: ExportNamedDeclaration, isTypeOnlyExport: b
     }
 
     for (const specifier of node.specifiers) {
+        // 命名空间导出：export * as ns from
+        if (specifier.type === "ExportNamespaceSpecifier") {
+            contents.push({
+                name: "*",
+                alias: specifier.exported.name,
+                type: isTypeOnlyExport ? "type" : "variable",
+            })
+
+            continue
+        }
+
         if (specifier.type === "ExportSpecifier") {
             // 解析 specifier 的注释
             const leadingComments: string[] = []
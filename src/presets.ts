@@ -0,0 +1,74 @@
+import { builtinModules } from "module"
+
+import { createCompareStrings, createSortGroup, getStatementImportType, isIndexPath } from "./sorter"
+import { CollationConfig, GroupPreset, GroupPresetConfig, ImportStatement, SideEffectGroupPlacement } from "./types"
+
+/** 各个预设的分组顺序 */
+const PRESET_GROUP_ORDERS: Record<GroupPreset, string[]> = {
+    node: ["builtin", "external", "internal", "relative"],
+    "eslint-import-order": ["builtin", "external", "internal", "parent", "sibling", "index"],
+}
+
+/** 判断是否是 Node.js 内置模块 */
+export function isBuiltinModule(path: string): boolean {
+    if (path.startsWith("node:")) {
+        return true
+    }
+
+    // 内置模块的子路径，比如 fs/promises
+    return builtinModules.includes(path)
+}
+
+/** 获取导入路径在 eslint-import-order 预设中的分组名称 */
+function getEslintImportOrderGroup(statement: ImportStatement): string {
+    const { path } = statement
+
+    if (isBuiltinModule(path)) {
+        return "builtin"
+    }
+
+    const type = getStatementImportType(statement)
+
+    if (type === "module") {
+        return "external"
+    }
+
+    if (type === "alias" || type === "internal") {
+        return "internal"
+    }
+
+    if (isIndexPath(path)) {
+        return "index"
+    }
+
+    if (path === ".." || path.startsWith("../")) {
+        return "parent"
+    }
+
+    return "sibling"
+}
+
+/** 获取导入路径在 node 预设中的分组名称，parent、sibling 和 index 合并为 relative */
+function getNodeGroup(statement: ImportStatement): string {
+    const group = getEslintImportOrderGroup(statement)
+
+    if (group === "parent" || group === "sibling" || group === "index") {
+        return "relative"
+    }
+
+    return group
+}
+
+/** 获取内置的分组预设，collation 为分组名称的比较规则，sideEffectPlacement 为副作用分组的位置 */
+export function getGroupPreset(preset: GroupPreset, collation?: CollationConfig, sideEffectPlacement?: SideEffectGroupPlacement): GroupPresetConfig {
+    const orders = PRESET_GROUP_ORDERS[preset]
+
+    if (!orders) {
+        throw new Error(`Unknown import sort group preset: ${preset}`)
+    }
+
+    return {
+        getGroup: preset === "node" ? getNodeGroup : getEslintImportOrderGroup,
+        sortGroup: createSortGroup(orders, createCompareStrings(collation), sideEffectPlacement),
+    }
+}
@@ -0,0 +1,437 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "fs"
+import { createRequire } from "module"
+import { dirname, isAbsolute, join, resolve } from "path"
+
+import { globToRegExp } from "./groups"
+import { getImportType } from "./sorter"
+import { ImportType } from "./types"
+
+/** 按照优先级查找的配置文件名称 */
+const CONFIG_FILE_NAMES = ["tsconfig.json", "jsconfig.json"]
+
+/** 检查 baseUrl 下的文件时尝试的扩展名 */
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".d.ts", ".js", ".jsx", ".mjs", ".cjs", ".json"]
+
+/** tsconfig.json 中与路径别名相关的配置 */
+export interface PathsConfig {
+    /** baseUrl 解析后的绝对路径 */
+    baseUrl?: string
+    /** paths 中的路径模式 */
+    paths?: string[]
+}
+
+/** 缓存的路径别名配置 */
+interface CachedPathsConfig {
+    /** 配置文件的修改时间 */
+    mtimeMs: number
+    /** 路径别名配置 */
+    config: PathsConfig
+}
+
+/** package.json 和工作区中与内部包相关的配置 */
+export interface PackageConfig {
+    /** 最近的 package.json 中 imports 的子路径模式 */
+    imports: string[]
+    /** 工作区中所有包的名称 */
+    workspacePackages: string[]
+}
+
+/** 缓存的工作区包名称 */
+interface CachedWorkspacePackages {
+    /** 工作区配置文件的修改时间 */
+    mtimeMs: number
+    /** 工作区中所有包的名称 */
+    packages: string[]
+}
+
+/** 导入路径类型解析函数 */
+export type ImportTypeResolver = (path: string) => ImportType
+
+/** 按照配置文件路径缓存的路径别名配置 */
+const pathsConfigCache = new Map<string, CachedPathsConfig>()
+
+/** 按照工作区根目录缓存的工作区包名称 */
+const workspacePackagesCache = new Map<string, CachedWorkspacePackages>()
+
+/** 解析 JSONC，tsconfig.json 允许使用注释和尾随逗号 */
+export function parseJsonc(text: string): any {
+    let result = ""
+    let inString = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+
+        if (inString) {
+            result += char
+
+            if (char === "\\") {
+                result += text[i + 1] ?? ""
+                i++
+            } else if (char === '"') {
+                inString = false
+            }
+
+            continue
+        }
+
+        if (char === '"') {
+            inString = true
+            result += char
+        } else if (char === "/" && text[i + 1] === "/") {
+            // 跳过行注释
+            while (i < text.length && text[i] !== "\n") {
+                i++
+            }
+
+            result += "\n"
+        } else if (char === "/" && text[i + 1] === "*") {
+            // 跳过块注释
+            const end = text.indexOf("*/", i + 2)
+            i = end === -1 ? text.length : end + 1
+        } else if (char === "}" || char === "]") {
+            // 移除尾随逗号
+            result = result.replace(/,\s*$/, "") + char
+        } else {
+            result += char
+        }
+    }
+
+    return JSON.parse(result)
+}
+
+/** 从目录向上查找第一个满足条件的目录 */
+function findUp(dir: string, predicate: (dir: string) => boolean): string | undefined {
+    while (true) {
+        if (predicate(dir)) {
+            return dir
+        }
+
+        const parent = dirname(dir)
+
+        if (parent === dir) {
+            return undefined
+        }
+
+        dir = parent
+    }
+}
+
+/** 从文件所在目录向上查找最近的 tsconfig.json 或 jsconfig.json */
+export function findConfigFile(filepath: string): string | undefined {
+    const dir = findUp(dirname(resolve(filepath)), dir => CONFIG_FILE_NAMES.some(name => existsSync(join(dir, name))))
+
+    if (!dir) {
+        return undefined
+    }
+
+    return CONFIG_FILE_NAMES.map(name => join(dir, name)).find(configPath => existsSync(configPath))
+}
+
+/** 解析 extends 指向的配置文件路径 */
+function resolveExtends(extendsPath: string, configDir: string): string | undefined {
+    // 相对路径或者绝对路径
+    if (extendsPath.startsWith(".") || isAbsolute(extendsPath)) {
+        const configPath = resolve(configDir, extendsPath)
+
+        if (existsSync(configPath)) {
+            return configPath
+        }
+
+        return existsSync(`${configPath}.json`) ? `${configPath}.json` : undefined
+    }
+
+    // 从 node_modules 中的包继承，比如 @tsconfig/node18/tsconfig.json
+    const require = createRequire(join(configDir, "tsconfig.json"))
+
+    for (const request of [extendsPath, `${extendsPath}.json`, `${extendsPath}/tsconfig.json`]) {
+        try {
+            return require.resolve(request)
+        } catch {}
+    }
+
+    return undefined
+}
+
+/** 读取配置文件中的路径别名配置，子配置覆盖 extends 的配置 */
+function readPathsConfig(configPath: string, visited: Set<string>): PathsConfig {
+    // 避免循环继承
+    if (visited.has(configPath)) {
+        return {}
+    }
+
+    visited.add(configPath)
+
+    const config = parseJsonc(readFileSync(configPath, "utf-8"))
+    const configDir = dirname(configPath)
+    const extendsList: string[] = Array.isArray(config.extends) ? config.extends : typeof config.extends === "string" ? [config.extends] : []
+
+    let result: PathsConfig = {}
+
+    for (const extendsPath of extendsList) {
+        const extendedConfigPath = resolveExtends(extendsPath, configDir)
+
+        if (extendedConfigPath) {
+            result = { ...result, ...readPathsConfig(extendedConfigPath, visited) }
+        }
+    }
+
+    const { baseUrl, paths } = config.compilerOptions ?? {}
+
+    // baseUrl 相对于定义它的配置文件
+    if (typeof baseUrl === "string") {
+        result.baseUrl = resolve(configDir, baseUrl)
+    }
+
+    if (paths && typeof paths === "object") {
+        result.paths = Object.keys(paths)
+    }
+
+    return result
+}
+
+/** 获取文件对应的路径别名配置 */
+export function getPathsConfig(filepath: string): PathsConfig | undefined {
+    const configPath = findConfigFile(filepath)
+
+    if (!configPath) {
+        return undefined
+    }
+
+    const { mtimeMs } = statSync(configPath)
+    const cached = pathsConfigCache.get(configPath)
+
+    if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.config
+    }
+
+    const config = readPathsConfig(configPath, new Set())
+    pathsConfigCache.set(configPath, { mtimeMs, config })
+
+    return config
+}
+
+/** 判断导入路径是否匹配 paths 中的路径模式，路径模式最多包含一个 * */
+function matchPathPattern(pattern: string, path: string): boolean {
+    const starIndex = pattern.indexOf("*")
+
+    if (starIndex === -1) {
+        return pattern === path
+    }
+
+    const prefix = pattern.slice(0, starIndex)
+    const suffix = pattern.slice(starIndex + 1)
+
+    return path.length >= prefix.length + suffix.length && path.startsWith(prefix) && path.endsWith(suffix)
+}
+
+/** 判断导入路径的第一段是否存在于 baseUrl 目录中 */
+function existsInBaseUrl(baseUrl: string, path: string): boolean {
+    const segment = path.split("/")[0]
+
+    if (!segment) {
+        return false
+    }
+
+    const target = join(baseUrl, segment)
+
+    return existsSync(target) || RESOLVE_EXTENSIONS.some(extension => existsSync(`${target}${extension}`))
+}
+
+/** 判断导入路径是否是 tsconfig.json 中配置的路径别名 */
+export function isPathsAlias(config: PathsConfig, path: string): boolean {
+    // 单独的 * 会匹配所有导入，不视为路径别名
+    if (config.paths?.some(pattern => pattern !== "*" && matchPathPattern(pattern, path))) {
+        return true
+    }
+
+    return config.baseUrl !== undefined && existsInBaseUrl(config.baseUrl, path)
+}
+
+/** 读取 JSON 文件，文件不存在或者无法解析时返回 undefined */
+function readJson(path: string): any {
+    try {
+        return JSON.parse(readFileSync(path, "utf-8"))
+    } catch {
+        return undefined
+    }
+}
+
+/** 读取 pnpm-workspace.yaml 中的 packages，只支持简单的列表格式 */
+export function parsePnpmWorkspacePackages(text: string): string[] {
+    const packages: string[] = []
+    let inPackages = false
+
+    for (const line of text.split(/\r?\n/)) {
+        // 移除行注释
+        const content = line.replace(/\s+#.*$/, "").replace(/^#.*$/, "")
+
+        if (!content.trim()) {
+            continue
+        }
+
+        if (/^packages\s*:/.test(content)) {
+            inPackages = true
+            continue
+        }
+
+        const match = content.match(/^\s*-\s*(.+)$/)
+
+        if (inPackages && match) {
+            packages.push(match[1].trim().replace(/^(["'])(.*)\1$/, "$2"))
+            continue
+        }
+
+        // 遇到下一个顶级字段时结束
+        if (!/^\s/.test(content)) {
+            inPackages = false
+        }
+    }
+
+    return packages
+}
+
+/** 读取工作区根目录中的工作区配置，不是工作区根目录时返回 undefined */
+function readWorkspacePatterns(dir: string): string[] | undefined {
+    const pnpmWorkspacePath = join(dir, "pnpm-workspace.yaml")
+
+    if (existsSync(pnpmWorkspacePath)) {
+        return parsePnpmWorkspacePackages(readFileSync(pnpmWorkspacePath, "utf-8"))
+    }
+
+    const workspaces = readJson(join(dir, "package.json"))?.workspaces
+
+    // npm 和 yarn 的 workspaces 可以是数组，也可以是 { packages: [] }
+    if (Array.isArray(workspaces)) {
+        return workspaces
+    }
+
+    if (Array.isArray(workspaces?.packages)) {
+        return workspaces.packages
+    }
+
+    return undefined
+}
+
+/** 获取目录下的子目录，跳过 node_modules 和隐藏目录 */
+function getSubDirs(dir: string): string[] {
+    try {
+        return readdirSync(dir, { withFileTypes: true })
+            .filter(entry => entry.isDirectory() && entry.name !== "node_modules" && !entry.name.startsWith("."))
+            .map(entry => join(dir, entry.name))
+    } catch {
+        return []
+    }
+}
+
+/** 递归获取目录下的所有子目录 */
+function getSubDirsRecursively(dir: string): string[] {
+    return getSubDirs(dir).flatMap(subDir => [subDir, ...getSubDirsRecursively(subDir)])
+}
+
+/** 将工作区配置中的 glob 展开为目录 */
+function expandWorkspacePattern(root: string, pattern: string): string[] {
+    let dirs = [root]
+
+    for (const segment of pattern.split("/").filter(segment => segment && segment !== ".")) {
+        if (segment === "**") {
+            dirs = dirs.flatMap(dir => [dir, ...getSubDirsRecursively(dir)])
+        } else if (segment.includes("*") || segment.includes("?") || segment.includes("{")) {
+            const regExp = globToRegExp(segment)
+            dirs = dirs.flatMap(dir => getSubDirs(dir).filter(subDir => regExp.test(subDir.slice(dir.length + 1))))
+        } else {
+            dirs = dirs.map(dir => join(dir, segment))
+        }
+    }
+
+    return dirs
+}
+
+/** 获取工作区中所有包的名称 */
+export function getWorkspacePackages(filepath: string): string[] {
+    const root = findUp(dirname(resolve(filepath)), dir => readWorkspacePatterns(dir) !== undefined)
+
+    if (!root) {
+        return []
+    }
+
+    const manifestPath = existsSync(join(root, "pnpm-workspace.yaml")) ? join(root, "pnpm-workspace.yaml") : join(root, "package.json")
+    const { mtimeMs } = statSync(manifestPath)
+    const cached = workspacePackagesCache.get(root)
+
+    if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.packages
+    }
+
+    const patterns = readWorkspacePatterns(root) ?? []
+
+    // 以 ! 开头的是排除的目录
+    const excludedDirs = new Set(patterns.filter(pattern => pattern.startsWith("!")).flatMap(pattern => expandWorkspacePattern(root, pattern.slice(1))))
+
+    const packages = patterns
+        .filter(pattern => !pattern.startsWith("!"))
+        .flatMap(pattern => expandWorkspacePattern(root, pattern))
+        .filter(dir => !excludedDirs.has(dir))
+        .map(dir => readJson(join(dir, "package.json"))?.name)
+        .filter((name): name is string => typeof name === "string")
+
+    workspacePackagesCache.set(root, { mtimeMs, packages })
+
+    return packages
+}
+
+/** 获取文件对应的 package.json imports 和工作区包名称 */
+export function getPackageConfig(filepath: string): PackageConfig {
+    const packageDir = findUp(dirname(resolve(filepath)), dir => existsSync(join(dir, "package.json")))
+    const imports = packageDir ? readJson(join(packageDir, "package.json"))?.imports : undefined
+
+    return {
+        imports: imports && typeof imports === "object" ? Object.keys(imports) : [],
+        workspacePackages: getWorkspacePackages(filepath),
+    }
+}
+
+/** 判断导入路径是否是 package.json imports 中的子路径或者工作区中的包 */
+export function isInternalPackage(config: PackageConfig, path: string): boolean {
+    if (path.startsWith("#") && config.imports.some(pattern => matchPathPattern(pattern, path))) {
+        return true
+    }
+
+    return config.workspacePackages.some(name => path === name || path.startsWith(`${name}/`))
+}
+
+/** 创建导入路径类型解析函数，会根据文件所在项目的 tsconfig.json 或 jsconfig.json 识别路径别名，开启 packageAware 时识别内部包 */
+export function createImportTypeResolver(filepath?: string, packageAware: boolean = false): ImportTypeResolver {
+    let config: PathsConfig | undefined
+    let packageConfig: PackageConfig | undefined
+
+    try {
+        config = filepath ? getPathsConfig(filepath) : undefined
+    } catch {
+        // 配置文件无法解析时，退回到默认的路径类型判断
+        config = undefined
+    }
+
+    try {
+        packageConfig = filepath && packageAware ? getPackageConfig(filepath) : undefined
+    } catch {
+        packageConfig = undefined
+    }
+
+    return function resolveImportType(path: string): ImportType {
+        const type = getImportType(path)
+
+        if (type !== "module") {
+            return type
+        }
+
+        if (packageConfig && isInternalPackage(packageConfig, path)) {
+            return "internal"
+        }
+
+        if (config && isPathsAlias(config, path)) {
+            return "alias"
+        }
+
+        return type
+    }
+}
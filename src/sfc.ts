@@ -0,0 +1,148 @@
+/** 单文件组件的解析器 */
+export const COMPONENT_PARSERS = ["vue", "svelte", "astro"]
+
+/** 单文件组件中的脚本片段 */
+export interface ScriptSection {
+    /** 脚本内容在文件中的起始位置 */
+    start: number
+    /** 脚本内容在文件中的结束位置 */
+    end: number
+    /** 用于解析脚本内容的解析器 */
+    parser: string
+}
+
+/** 排序脚本片段中的导入语句，usedIdentifiers 为文件其他部分使用的标识符，没有传入时不删除未使用的导入 */
+export type PreprocessScriptFunction = (code: string, parser: string, usedIdentifiers?: Set<string>) => string
+
+/** 可以包含 JavaScript 的 script 标签 type 属性 */
+const SCRIPT_TYPES = ["module", "text/javascript", "application/javascript", "text/typescript", "ts", "typescript"]
+
+/** 获取标签属性的值 */
+export function getAttribute(attributes: string, name: string): string | undefined {
+    const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`).exec(attributes)
+
+    return match ? (match[1] ?? match[2] ?? match[3]) : undefined
+}
+
+/** 根据 script 标签的属性获取解析器，不包含 JavaScript 的 script 标签返回 undefined */
+function getScriptParser(attributes: string, defaultParser: string): string | undefined {
+    // 引用外部文件的 script 标签没有需要排序的内容
+    if (getAttribute(attributes, "src") !== undefined) {
+        return undefined
+    }
+
+    const type = getAttribute(attributes, "type")
+
+    if (type !== undefined && !SCRIPT_TYPES.includes(type)) {
+        return undefined
+    }
+
+    const lang = getAttribute(attributes, "lang")
+
+    if (lang === "ts" || lang === "tsx" || type === "text/typescript" || type === "ts" || type === "typescript") {
+        return "typescript"
+    }
+
+    return lang === undefined ? defaultParser : lang === "js" || lang === "jsx" ? "babel" : undefined
+}
+
+/** 查找单文件组件中的脚本片段，Astro 的 frontmatter 和 script 标签默认使用 TypeScript */
+export function findScriptSections(text: string, parser: string): ScriptSection[] {
+    const sections: ScriptSection[] = []
+
+    if (parser === "astro") {
+        const frontmatter = /^(\s*---\r?\n)([\s\S]*?)^---/m.exec(text)
+
+        if (frontmatter?.index === 0) {
+            const start = frontmatter[1].length
+
+            sections.push({ start, end: start + frontmatter[2].length, parser: "typescript" })
+        }
+    }
+
+    const scriptRegExp = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi
+    const defaultParser = parser === "astro" ? "typescript" : "babel"
+
+    for (let match = scriptRegExp.exec(text); match; match = scriptRegExp.exec(text)) {
+        const scriptParser = getScriptParser(match[1], defaultParser)
+
+        // 跳过 frontmatter 中的内容
+        if (!scriptParser || sections.some(section => match.index >= section.start && match.index < section.end)) {
+            continue
+        }
+
+        const start = match.index + match[0].indexOf(">") + 1
+
+        sections.push({ start, end: start + match[2].length, parser: scriptParser })
+    }
+
+    return sections.sort((a, b) => a.start - b.start)
+}
+
+/** 收集组件其他部分使用的标识符，短横线命名的组件标签同时转换为大驼峰命名 */
+export function collectMarkupIdentifiers(markup: string): Set<string> {
+    const identifiers = new Set<string>()
+
+    const wordRegExp = /[A-Za-z_$][\w$-]*/g
+
+    for (let match = wordRegExp.exec(markup); match; match = wordRegExp.exec(markup)) {
+        const [word] = match
+
+        for (const part of word.split("-")) {
+            if (part) {
+                identifiers.add(part)
+            }
+        }
+
+        // <my-button> 对应 MyButton
+        if (word.includes("-")) {
+            identifiers.add(word.replace(/(?:^|-)([a-z\d])/g, (_: string, char: string) => char.toUpperCase()))
+        }
+    }
+
+    return identifiers
+}
+
+/** 获取所有非空行共同的缩进 */
+function getCommonIndent(code: string): string {
+    const indents = code
+        .split("\n")
+        .filter(line => line.trim() !== "")
+        .map(line => /^[ \t]*/.exec(line)![0])
+
+    return indents.reduce((common, indent) => (indent.startsWith(common) ? common : indent), indents[0] ?? "")
+}
+
+/** 处理带有缩进的代码，先去掉共同的缩进，处理后再按原样加回去，返回的代码不包括末尾的空白 */
+export function preprocessIndentedScript(code: string, preprocess: (code: string) => string): string {
+    const indent = getCommonIndent(code)
+
+    const dedentedCode = code
+        .split("\n")
+        .map(line => line.slice(indent.length))
+        .join("\n")
+
+    return preprocess(dedentedCode)
+        .trimEnd()
+        .split("\n")
+        .map(line => (line.trim() === "" ? "" : indent + line))
+        .join("\n")
+}
+
+/** 排序单文件组件中每个脚本片段的导入语句，再将结果拼接回原来的位置 */
+export function preprocessComponent(text: string, parser: string, preprocessScript: PreprocessScriptFunction): string {
+    const sections = findScriptSections(text, parser)
+
+    let result = text
+
+    // 从后往前替换，保证前面片段的位置不变
+    for (const section of [...sections].reverse()) {
+        const code = text.slice(section.start, section.end)
+        const usedIdentifiers = collectMarkupIdentifiers(text.slice(0, section.start) + text.slice(section.end))
+        const processedCode = preprocessScript(code, section.parser, usedIdentifiers)
+
+        result = result.slice(0, section.start) + processedCode + result.slice(section.end)
+    }
+
+    return result
+}
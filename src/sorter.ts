@@ -1,21 +1,113 @@
-import { Group, ImportContent, ImportStatement, PluginConfig } from "./types"
+import { dirname, resolve } from "path"
+
+import {
+    CollationConfig,
+    Group,
+    ImportContent,
+    ImportContext,
+    ImportStatement,
+    ImportStatementContext,
+    ImportType,
+    PluginConfig,
+    RelativeImportSortConfig,
+    SideEffectGroupPlacement,
+    SortGroupFunction,
+    SortImportContentFunction,
+    SortImportStatementFunction,
+    SortSpecifiersBy,
+    TypeSpecifierPlacement,
+} from "./types"
+
+/** 字符串比较函数 */
+export type CompareStrings = (a: string, b: string) => number
+
+/** 按照比较配置缓存的 Intl.Collator，所有默认排序共享同一个实例 */
+const collators = new Map<string, Intl.Collator>()
+
+/** 校验语言，无效的语言退回到运行环境的语言，而不是让 Intl.Collator 抛出错误 */
+function resolveLocale(locale?: string): string | undefined {
+    if (!locale) {
+        return undefined
+    }
 
-type ImportType = "module" | "alias" | "relative"
+    try {
+        Intl.Collator.supportedLocalesOf(locale)
+        return locale
+    } catch {
+        console.warn(`Invalid import sort locale "${locale}", falling back to the runtime locale`)
+        return undefined
+    }
+}
+
+/** 获取字符串比较配置对应的 Intl.Collator，没有配置时与 localeCompare 的结果相同 */
+export function getCollator({ locale, numeric = false, caseOrder }: CollationConfig = {}): Intl.Collator {
+    const key = `${locale ?? ""}|||${numeric}|||${caseOrder ?? ""}`
+    let collator = collators.get(key)
+
+    if (!collator) {
+        collator = new Intl.Collator(resolveLocale(locale), {
+            numeric,
+            // accent 只区分字母和重音符号，不区分大小写
+            sensitivity: caseOrder === "case-insensitive" ? "accent" : "variant",
+            caseFirst: caseOrder === "upper-first" ? "upper" : caseOrder === "lower-first" ? "lower" : undefined,
+        })
+
+        collators.set(key, collator)
+    }
+
+    return collator
+}
+
+/** 创建字符串比较函数 */
+export function createCompareStrings(collation?: CollationConfig): CompareStrings {
+    return getCollator(collation).compare
+}
 
 /** 默认的分组函数，所有导入都在 default 分组 */
 function defaultGetGroup(): string {
     return "default"
 }
 
-/** 默认的分组排序函数，按照分组名称的字母顺序排序 */
-function defaultSortGroup(a: Group, b: Group): number {
-    return a.name.localeCompare(b.name)
+/** 分组顺序中代表未列出的分组的通配符 */
+export const GROUP_ORDER_WILDCARD = "*"
+
+/**
+ * 创建按照给定顺序排序分组的函数，未列出的分组排在通配符 * 的位置，没有通配符时排在最后，未列出的分组之间按照名称排序
+ * sideEffectPlacement 为 first 或 last 时副作用分组排在所有普通分组之前或之后，为 mixed 时与普通分组一起按照顺序排序
+ */
+export function createSortGroup(
+    orders: string[],
+    compareStrings: CompareStrings = createCompareStrings(),
+    sideEffectPlacement: SideEffectGroupPlacement = "last",
+): SortGroupFunction {
+    const wildcardIndex = orders.indexOf(GROUP_ORDER_WILDCARD)
+
+    function getOrder(name: string): number {
+        const index = orders.indexOf(name)
+
+        if (index !== -1) {
+            return index
+        }
+
+        return wildcardIndex === -1 ? orders.length : wildcardIndex
+    }
+
+    return function sortGroup(a: Group, b: Group): number {
+        const sideEffectDiff = Number(a.isSideEffect) - Number(b.isSideEffect)
+
+        if (sideEffectPlacement !== "mixed" && sideEffectDiff !== 0) {
+            return sideEffectPlacement === "first" ? -sideEffectDiff : sideEffectDiff
+        }
+
+        // 同名的普通分组排在副作用分组之前
+        return getOrder(a.name) - getOrder(b.name) || compareStrings(a.name, b.name) || sideEffectDiff
+    }
 }
 
 /** 获取导入路径的类型 */
-function getImportType(path: string): ImportType {
-    // 相对路径：以 ./ 或 ../ 开头
-    if (path.startsWith("./") || path.startsWith("../")) {
+export function getImportType(path: string): ImportType {
+    // 相对路径：以 ./ 或 ../ 开头，或者是 . 和 .. 本身
+    if (path === "." || path === ".." || path.startsWith("./") || path.startsWith("../")) {
         return "relative"
     }
 
@@ -33,102 +125,210 @@ function getImportType(path: string): ImportType {
     return "module"
 }
 
+/** 获取导入语句的类型，优先使用解析时根据 tsconfig.json 等配置得到的类型 */
+export function getStatementImportType(statement: ImportStatement): ImportType {
+    return statement.importType ?? getImportType(statement.path)
+}
+
 /** 获取导入类型的排序优先级，数值越小越靠前 */
 function getImportTypePriority(type: ImportType): number {
     switch (type) {
         case "module":
             return 0
-        case "alias":
+        case "internal":
             return 1
-        case "relative":
+        case "alias":
             return 2
+        case "relative":
+            return 3
     }
 }
 
-/** 默认的导入语句排序函数，优先按照导入类型（模块 > 绝对路径 > 相对路径），然后按照 path 的字母顺序排序 */
-function defaultSortImportStatement(a: ImportStatement, b: ImportStatement): number {
-    const aType = getImportType(a.path)
-    const bType = getImportType(b.path)
+/** 判断是否是当前目录的 index 文件 */
+export function isIndexPath(path: string): boolean {
+    return path === "." || path === "./" || /^\.\/index(\.[cm]?[jt]sx?)?$/.test(path)
+}
+
+/** 获取相对路径向上的目录层级，./ 为 0，../ 为 1，../../ 为 2 */
+export function getRelativeDepth(path: string): number {
+    let depth = 0
 
-    const aPriority = getImportTypePriority(aType)
-    const bPriority = getImportTypePriority(bType)
+    for (const segment of path.split("/")) {
+        if (segment !== "..") {
+            break
+        }
 
-    // 先按照类型优先级排序
-    if (aPriority !== bPriority) {
-        return aPriority - bPriority
+        depth++
     }
 
-    // 同类型的按照 path 的字母顺序排序
-    return a.path.localeCompare(b.path)
+    return depth
 }
 
-/** 默认的导入内容排序函数，type 类型在前，然后按照最终导入的内容名称的字母顺序排序 */
-function defaultSortImportContent(a: ImportContent, b: ImportContent): number {
-    // type 类型优先
-    if (a.type === "type" && b.type !== "type") {
-        return -1
-    }
+/** 创建比较相对路径导入的函数，只要有一个不是相对路径导入就返回 0，可以在自定义的 sortImportStatement 中与其他规则组合使用 */
+export function createRelativeImportComparator({ order, indexLast = false }: RelativeImportSortConfig = {}): (
+    a: ImportStatement,
+    b: ImportStatement,
+) => number {
+    return function compareRelativeImports(a: ImportStatement, b: ImportStatement): number {
+        if (getStatementImportType(a) !== "relative" || getStatementImportType(b) !== "relative") {
+            return 0
+        }
+
+        // index 文件排在最后
+        if (indexLast) {
+            const indexDiff = Number(isIndexPath(a.path)) - Number(isIndexPath(b.path))
+
+            if (indexDiff !== 0) {
+                return indexDiff
+            }
+        }
+
+        if (!order) {
+            return 0
+        }
 
-    if (a.type !== "type" && b.type === "type") {
-        return 1
+        const depthDiff = getRelativeDepth(a.path) - getRelativeDepth(b.path)
+
+        return order === "farthest-first" ? -depthDiff : depthDiff
     }
+}
 
-    // 按照最终导入的名称排序（如果有别名用别名，否则用原名称）
-    const aName = a.alias ?? a.name
-    const bName = b.alias ?? b.name
-    return aName.localeCompare(bName)
+/** 按照导入类型比较导入语句，模块 > 内部包 > 绝对路径 > 相对路径，类型相同时返回 0 */
+export function compareImportTypes(a: ImportStatement, b: ImportStatement): number {
+    return getImportTypePriority(getStatementImportType(a)) - getImportTypePriority(getStatementImportType(b))
 }
 
-/** 默认配置 */
-const DEFAULT_CONFIG = {
-    getGroup: defaultGetGroup,
-    sortGroup: defaultSortGroup,
-    sortImportStatement: defaultSortImportStatement,
-    sortImportContent: defaultSortImportContent,
-    sortSideEffect: false,
+/** 创建默认的导入语句排序函数，优先按照导入类型（模块 > 内部包 > 绝对路径 > 相对路径），相对路径导入按照 relativeImports 的规则排序，然后按照 path 的字母顺序排序 */
+export function createDefaultSortImportStatement(compareStrings: CompareStrings, relativeImports?: RelativeImportSortConfig): SortImportStatementFunction {
+    const compareRelativeImports = createRelativeImportComparator(relativeImports)
+
+    return function defaultSortImportStatement(a: ImportStatement, b: ImportStatement): number {
+        // 先按照类型优先级排序，同类型的按照 path 的字母顺序排序
+        return compareImportTypes(a, b) || compareRelativeImports(a, b) || compareStrings(a.path, b.path)
+    }
+}
+
+/**
+ * 创建默认的导入内容排序函数，默认 type 和 typeof 类型在前，然后按照最终导入的内容名称的字母顺序排序
+ * typeSpecifierPlacement 为 last 时类型在后，为 mixed 时不区分类型，sortSpecifiersBy 为 imported 时按照模块中导出的名称排序
+ */
+export function createDefaultSortImportContent(
+    compareStrings: CompareStrings,
+    typeSpecifierPlacement: TypeSpecifierPlacement = "first",
+    sortSpecifiersBy: SortSpecifiersBy = "local",
+): SortImportContentFunction {
+    return function defaultSortImportContent(a: ImportContent, b: ImportContent): number {
+        // type 和 typeof 类型的位置
+        if (typeSpecifierPlacement !== "mixed") {
+            const typeDiff = Number(a.type === "variable") - Number(b.type === "variable")
+
+            if (typeDiff !== 0) {
+                return typeSpecifierPlacement === "first" ? typeDiff : -typeDiff
+            }
+        }
+
+        // 按照最终导入的名称排序（如果有别名用别名，否则用原名称），或者按照模块中导出的名称排序
+        const aName = sortSpecifiersBy === "imported" ? a.name : (a.alias ?? a.name)
+        const bName = sortSpecifiersBy === "imported" ? b.name : (b.alias ?? b.name)
+        return compareStrings(aName, bName)
+    }
 }
 
 /** 合并后的配置 */
-export interface MergedConfig extends Omit<Required<PluginConfig>, "separator" | "removeUnusedImports" | "otherPlugins" | "prettierOptions"> {
+export interface MergedConfig extends Omit<
+    Required<PluginConfig>,
+    | "groupPreset"
+    | "groups"
+    | "packageAware"
+    | "collation"
+    | "groupOrder"
+    | "typeSpecifierPlacement"
+    | "sortSpecifiersBy"
+    | "sideEffectGroupPlacement"
+    | "relativeImports"
+    | "separator"
+    | "removeUnusedImports"
+    | "normalizeAssert"
+    | "sortAllImportRegions"
+    | "hoistImports"
+    | "commonjs"
+    | "sortCodeBlocks"
+    | "sortTripleSlashDirectives"
+    | "babelPlugins"
+    | "otherPlugins"
+    | "prettierOptions"
+> {
     separator: PluginConfig["separator"]
     removeUnusedImports: boolean
 }
 
+/** 创建只按照分组名称排序的函数，同名的副作用分组和普通分组保持原有顺序 */
+export function createSortGroupByName(compareStrings: CompareStrings = createCompareStrings()): SortGroupFunction {
+    return function sortGroupByName(a: Group, b: Group): number {
+        return compareStrings(a.name, b.name)
+    }
+}
+
+/** 获取默认的分组排序函数 */
+function getDefaultSortGroup(userConfig: PluginConfig, compareStrings: CompareStrings): SortGroupFunction {
+    // 自定义的 getGroup 没有配置分组顺序和副作用分组的位置时只按照分组名称排序
+    if (userConfig.getGroup && !userConfig.groupOrder && !userConfig.sideEffectGroupPlacement) {
+        return createSortGroupByName(compareStrings)
+    }
+
+    return createSortGroup(userConfig.groupOrder ?? [], compareStrings, userConfig.sideEffectGroupPlacement)
+}
+
 /** 合并用户配置和默认配置 */
 function mergeConfig(userConfig: PluginConfig): MergedConfig {
+    const compareStrings = createCompareStrings(userConfig.collation)
+
     return {
-        getGroup: userConfig.getGroup ?? DEFAULT_CONFIG.getGroup,
-        sortGroup: userConfig.sortGroup ?? DEFAULT_CONFIG.sortGroup,
-        sortImportStatement: userConfig.sortImportStatement ?? DEFAULT_CONFIG.sortImportStatement,
-        sortImportContent: userConfig.sortImportContent ?? DEFAULT_CONFIG.sortImportContent,
+        getGroup: userConfig.getGroup ?? defaultGetGroup,
+        sortGroup: userConfig.sortGroup ?? getDefaultSortGroup(userConfig, compareStrings),
+        sortImportStatement: userConfig.sortImportStatement ?? createDefaultSortImportStatement(compareStrings, userConfig.relativeImports),
+        sortImportContent:
+            userConfig.sortImportContent ?? createDefaultSortImportContent(compareStrings, userConfig.typeSpecifierPlacement, userConfig.sortSpecifiersBy),
         separator: userConfig.separator,
-        sortSideEffect: userConfig.sortSideEffect ?? DEFAULT_CONFIG.sortSideEffect,
+        sortSideEffect: userConfig.sortSideEffect ?? false,
         removeUnusedImports: userConfig.removeUnusedImports ?? false,
     }
 }
 
+/** 获取导入语句的上下文 */
+export function getStatementContext(statement: ImportStatement, context: ImportContext): ImportStatementContext {
+    const { filepath } = context
+    const isRelative = getImportType(statement.path) === "relative"
+
+    return {
+        ...context,
+        index: statement.index ?? 0,
+        resolvedPath: filepath && isRelative ? resolve(dirname(filepath), statement.path) : undefined,
+    }
+}
+
 /** 对导入语句进行排序 */
-export function sortImports(imports: ImportStatement[], userConfig: PluginConfig): ImportStatement[] {
+export function sortImports(imports: ImportStatement[], userConfig: PluginConfig, context: ImportContext = {}): ImportStatement[] {
     const config = mergeConfig(userConfig)
 
     // 如果不对副作用导入进行排序，需要特殊处理
     if (!config.sortSideEffect) {
-        return sortImportsWithSideEffectSeparators(imports, config)
+        return sortImportsWithSideEffectSeparators(imports, config, context)
     }
 
     // 对所有导入进行分组和排序
-    const groups = groupImports(imports, config)
+    const groups = groupImports(imports, config, context)
 
-    const sortedGroups = sortGroups(groups, config)
+    const sortedGroups = sortGroups(groups, config, context)
 
     // 将分组中的导入语句展平
     const result: ImportStatement[] = []
 
     for (const group of sortedGroups) {
-        const sortedStatements = sortImportStatements(group.importStatements, config)
+        const sortedStatements = sortImportStatements(group.importStatements, config, context)
 
         for (const statement of sortedStatements) {
-            const sortedContents = sortImportContents(statement.importContents, config)
+            const sortedContents = sortImportContents(statement.importContents, config, getStatementContext(statement, context))
 
             result.push({
                 ...statement,
@@ -141,7 +341,7 @@ export function sortImports(imports: ImportStatement[], userConfig: PluginConfig
 }
 
 /** 对导入语句进行分组和排序（副作用导入作为分隔符） */
-function sortImportsWithSideEffectSeparators(imports: ImportStatement[], config: MergedConfig): ImportStatement[] {
+function sortImportsWithSideEffectSeparators(imports: ImportStatement[], config: MergedConfig, context: ImportContext): ImportStatement[] {
     const result: ImportStatement[] = []
 
     const chunks: ImportStatement[][] = []
@@ -175,15 +375,15 @@ function sortImportsWithSideEffectSeparators(imports: ImportStatement[], config:
         }
 
         // 对非副作用导入块进行分组和排序
-        const groups = groupImports(chunk, config)
+        const groups = groupImports(chunk, config, context)
 
-        const sortedGroups = sortGroups(groups, config)
+        const sortedGroups = sortGroups(groups, config, context)
 
         for (const group of sortedGroups) {
-            const sortedStatements = sortImportStatements(group.importStatements, config)
+            const sortedStatements = sortImportStatements(group.importStatements, config, context)
 
             for (const statement of sortedStatements) {
-                const sortedContents = sortImportContents(statement.importContents, config)
+                const sortedContents = sortImportContents(statement.importContents, config, getStatementContext(statement, context))
 
                 result.push({
                     ...statement,
@@ -197,13 +397,13 @@ function sortImportsWithSideEffectSeparators(imports: ImportStatement[], config:
 }
 
 /** 对导入语句进行分组，同时根据 name 和 isSideEffect 区分 */
-export function groupImports(imports: ImportStatement[], userConfig: PluginConfig): Group[] {
+export function groupImports(imports: ImportStatement[], userConfig: PluginConfig, context: ImportContext = {}): Group[] {
     const config = mergeConfig(userConfig)
     // 使用 name + isSideEffect 作为组合键来区分不同的 Group
     const groupMap = new Map<string, ImportStatement[]>()
 
     for (const statement of imports) {
-        const groupName = config.getGroup(statement)
+        const groupName = config.getGroup(statement, getStatementContext(statement, context))
         // 组合键：name|||isSideEffect
         const key = `${groupName}|||${statement.isSideEffect}`
         const statements = groupMap.get(key) ?? []
@@ -230,24 +430,27 @@ export function groupImports(imports: ImportStatement[], userConfig: PluginConfi
 }
 
 /** 对分组进行排序 */
-export function sortGroups(groups: Group[], userConfig: PluginConfig): Group[] {
+export function sortGroups(groups: Group[], userConfig: PluginConfig, context: ImportContext = {}): Group[] {
     const config = mergeConfig(userConfig)
-    return [...groups].sort(config.sortGroup)
+    return [...groups].sort((a, b) => config.sortGroup(a, b, context))
 }
 
 /** 对导入语句进行排序 */
-export function sortImportStatements(statements: ImportStatement[], userConfig: PluginConfig): ImportStatement[] {
+export function sortImportStatements(statements: ImportStatement[], userConfig: PluginConfig, context: ImportContext = {}): ImportStatement[] {
     const config = mergeConfig(userConfig)
-    return [...statements].sort(config.sortImportStatement)
+    const contexts = new Map(statements.map(statement => [statement, getStatementContext(statement, context)]))
+
+    return [...statements].sort((a, b) => config.sortImportStatement(a, b, { ...context, a: contexts.get(a)!, b: contexts.get(b)! }))
 }
 
-/** 对导入内容进行排序 */
-export function sortImportContents(contents: ImportContent[], userConfig: PluginConfig): ImportContent[] {
+/** 对导入内容进行排序，context 是导入内容所在的导入语句的上下文 */
+export function sortImportContents(contents: ImportContent[], userConfig: PluginConfig, context: ImportStatementContext = { index: 0 }): ImportContent[] {
     const config = mergeConfig(userConfig)
+    const compare = (a: ImportContent, b: ImportContent) => config.sortImportContent(a, b, context)
 
     // 如果用户提供了自定义排序函数，完全使用用户的逻辑
     if (userConfig.sortImportContent) {
-        return [...contents].sort(config.sortImportContent)
+        return [...contents].sort(compare)
     }
 
     // 使用默认排序：默认导入和命名空间导入在最前面，type 在前
@@ -256,13 +459,21 @@ export function sortImportContents(contents: ImportContent[], userConfig: Plugin
     const namespaceImport = contents.filter(c => c.name === "*")
     const namedImports = contents.filter(c => c.name !== "default" && c.name !== "*")
 
-    return [...defaultImport, ...namespaceImport, ...namedImports.sort(config.sortImportContent)]
+    return [...defaultImport, ...namespaceImport, ...namedImports.sort(compare)]
+}
+
+/** 获取导入属性的标识，导入属性不同的语句不能合并 */
+function getAttributesKey(statement: ImportStatement): string {
+    return (statement.attributes ?? [])
+        .map(({ key, value }) => `${key}=${value}`)
+        .sort()
+        .join(",")
 }
 
 /** 合并来自同一模块的导入语句 */
 export function mergeImports(imports: ImportStatement[]): ImportStatement[] {
     // 使用 Map 来存储合并后的导入
-    // key 是 `${path}|||${isExport}` 的形式，确保相同模块和相同类型（import/export）的导入会被合并
+    // key 是 `${path}|||${isExport}|||${phase}|||${attributes}|||${declarationKind}` 的形式，确保相同模块、相同类型（import/export）、相同导入阶段、相同导入属性和相同 require 声明关键字的导入会被合并
     const mergedMap = new Map<string, ImportStatement>()
 
     for (const statement of imports) {
@@ -282,7 +493,8 @@ export function mergeImports(imports: ImportStatement[]): ImportStatement[] {
             continue
         }
 
-        const key = `${statement.path}|||${statement.isExport}`
+        const requireKey = statement.isRequire ? `require:${statement.declarationKind}` : ""
+        const key = `${statement.path}|||${statement.isExport}|||${statement.phase ?? ""}|||${getAttributesKey(statement)}|||${requireKey}`
         const existing = mergedMap.get(key)
 
         if (!existing) {
@@ -298,6 +510,11 @@ export function mergeImports(imports: ImportStatement[]): ImportStatement[] {
                 if (!existingContent) {
                     mergedContents.push(content)
                 } else {
+                    // 同一个内容既有 type 或 typeof 导入又有普通导入时，普通导入已经包含了类型
+                    if (existingContent.type !== content.type && (existingContent.type === "variable" || content.type === "variable")) {
+                        existingContent.type = "variable"
+                    }
+
                     // 如果已存在，合并注释
                     if (content.leadingComments) {
                         existingContent.leadingComments = [...(existingContent.leadingComments ?? []), ...content.leadingComments]
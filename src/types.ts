@@ -1,3 +1,4 @@
+import { ParserPlugin } from "@babel/parser"
 import { Plugin } from "prettier"
 
 /** 导入内容 */
@@ -6,24 +7,51 @@ export interface ImportContent {
     name: string
     /** 导入的内容的别名 */
     alias?: string
-    /** 导入的内容的类型，只有明确在导入前加入了 type 标记的才属于 type 类型，没有明确的加入 type 标记的都属于 variable 类型 */
-    type: "type" | "variable"
+    /** 导入的内容的类型，只有明确在导入前加入了 type 标记的才属于 type 类型，Flow 中加入了 typeof 标记的属于 typeof 类型，其他的都属于 variable 类型 */
+    type: "type" | "typeof" | "variable"
     /** 导入内容上方的注释 */
     leadingComments?: string[]
     /** 导入内容后方的行尾注释 */
     trailingComments?: string[]
 }
 
+/** 导入属性，比如 with { type: "json" } 中的 type: "json" */
+export interface ImportAttribute {
+    /** 属性名 */
+    key: string
+    /** 属性值 */
+    value: string
+}
+
+/** 导入路径的类型，module 为第三方模块，internal 为 package.json imports 中的子路径和工作区中的包，alias 为路径别名，relative 为相对路径 */
+export type ImportType = "module" | "internal" | "alias" | "relative"
+
 /** 导入语句 */
 export interface ImportStatement {
     /** 导入的模块路径，可以是相对路径或绝对路径，比如 react, react-dom 或者 ./utils/index，@/utils/index 等 */
     path: string
+    /** 导入路径的类型，会根据 tsconfig.json 或 jsconfig.json 的 paths 和 baseUrl 识别路径别名，开启 packageAware 时会识别 internal */
+    importType?: ImportType
     /** 是否是导出语句，默认为 false */
     isExport: boolean
     /** 是否是副作用导入，默认为 false */
     isSideEffect: boolean
+    /** 是否是没有导入内容的 type-only 语句，比如 export type * from，默认为 false */
+    isTypeOnly?: boolean
+    /** 是否是 TypeScript 的 import x = require() 语句，默认为 false */
+    isImportEquals?: boolean
+    /** 是否是 CommonJS 的 require 语句，比如 const x = require("x") 和 const { a, b: c } = require("y")，默认为 false */
+    isRequire?: boolean
+    /** require 语句的声明关键字 */
+    declarationKind?: "const" | "let" | "var"
     /** 导入的内容 */
     importContents: ImportContent[]
+    /** 导入阶段，比如 import source x from 和 import defer * as ns from */
+    phase?: "source" | "defer"
+    /** 导入属性，比如 with { type: "json" } */
+    attributes?: ImportAttribute[]
+    /** 导入属性使用的关键字，旧的语法使用 assert */
+    attributesKeyword?: "with" | "assert"
     /** 导入语句上方的注释 */
     leadingComments?: string[]
     /** 导入语句后方的行尾注释 */
@@ -32,6 +60,8 @@ export interface ImportStatement {
     removedTrailingComments?: string[]
     /** 前导注释后的空行数（用于保留注释和 import 之间的空行） */
     emptyLinesAfterComments?: number
+    /** 在导入语句块中的原始索引 */
+    index?: number
     /** 在源代码中的起始位置（包括注释） */
     start?: number
     /** 在源代码中的结束位置 */
@@ -48,37 +78,155 @@ export interface Group {
     importStatements: ImportStatement[]
 }
 
+/** 当前格式化的文件的上下文 */
+export interface ImportContext {
+    /** 文件路径，来自 Prettier 的 filepath，格式化字符串时可能不存在 */
+    filepath?: string
+    /** 当前使用的 Prettier 解析器 */
+    parser?: string
+}
+
+/** 导入语句的上下文 */
+export interface ImportStatementContext extends ImportContext {
+    /** 导入语句在源代码中的原始索引 */
+    index: number
+    /** 相对路径导入解析后的绝对路径，只有在存在 filepath 时才会解析 */
+    resolvedPath?: string
+}
+
+/** 导入语句排序函数的上下文 */
+export interface SortImportStatementContext extends ImportContext {
+    /** 第一个导入语句的上下文 */
+    a: ImportStatementContext
+    /** 第二个导入语句的上下文 */
+    b: ImportStatementContext
+}
+
 /** 获取分组名称的函数 */
-export type GetGroupFunction = (importStatement: ImportStatement) => string
+export type GetGroupFunction = (importStatement: ImportStatement, context: ImportStatementContext) => string
 
 /** 分组排序函数 */
-export type SortGroupFunction = (a: Group, b: Group) => number
+export type SortGroupFunction = (a: Group, b: Group, context: ImportContext) => number
 
 /** 导入语句排序函数 */
-export type SortImportStatementFunction = (a: ImportStatement, b: ImportStatement) => number
+export type SortImportStatementFunction = (a: ImportStatement, b: ImportStatement, context: SortImportStatementContext) => number
+
+/** 导入内容排序函数，上下文是导入内容所在的导入语句的上下文 */
+export type SortImportContentFunction = (a: ImportContent, b: ImportContent, context: ImportStatementContext) => number
+
+/** 字符串比较时的大小写规则，case-insensitive 忽略大小写，upper-first 和 lower-first 在其他字符相同时大写或小写在前 */
+export type CaseOrder = "case-insensitive" | "upper-first" | "lower-first"
+
+/** 默认排序使用的字符串比较配置 */
+export interface CollationConfig {
+    /** 排序使用的语言，比如 en，默认使用运行环境的语言 */
+    locale?: string
+    /** 是否按照数值大小比较字符串中的数字，比如 ./file2 排在 ./file10 之前，默认为 false */
+    numeric?: boolean
+    /** 大小写规则，默认使用语言本身的规则 */
+    caseOrder?: CaseOrder
+}
 
-/** 导入内容排序函数 */
-export type SortImportContentFunction = (a: ImportContent, b: ImportContent) => number
+/** 相对路径导入按照目录层级的排序方式，farthest-first 为 ../../ → ../ → ./，nearest-first 相反 */
+export type RelativeImportOrder = "farthest-first" | "nearest-first"
+
+/** 相对路径导入的排序规则 */
+export interface RelativeImportSortConfig {
+    /** 按照目录层级排序的方式，默认按照 path 的字母顺序排序 */
+    order?: RelativeImportOrder
+    /** 是否将当前目录的 index 文件排在其他相对路径导入之后，默认为 false */
+    indexLast?: boolean
+}
+
+/** 副作用分组的位置，first 和 last 排在所有普通分组之前或之后，mixed 与普通分组一起按照分组顺序排序 */
+export type SideEffectGroupPlacement = "first" | "last" | "mixed"
+
+/** 花括号中 type 和 typeof 导入内容的位置，first 和 last 排在普通导入内容之前或之后，mixed 与普通导入内容一起排序 */
+export type TypeSpecifierPlacement = "first" | "last" | "mixed"
+
+/** 导入内容排序使用的名称，imported 为模块中导出的名称，local 为最终导入的名称，有别名时使用别名 */
+export type SortSpecifiersBy = "imported" | "local"
 
 /** 分隔符函数 */
 export type SeparatorFunction = (group: Group, index: number) => string | undefined
 
+/** 内置分组预设的名称 */
+export type GroupPreset = "node" | "eslint-import-order"
+
+/** 内置分组预设提供的分组函数和分组排序函数 */
+export interface GroupPresetConfig {
+    /** 获取分组名称 */
+    getGroup: GetGroupFunction
+    /** 分组排序 */
+    sortGroup: SortGroupFunction
+}
+
+/** 声明式的分组配置，可以序列化为 JSON，用于 .prettierrc.json 等配置文件 */
+export interface GroupConfig {
+    /** 分组名称 */
+    name: string
+    /** 匹配导入路径的正则表达式，匹配任意一个即属于该分组 */
+    pattern?: string | string[]
+    /** 匹配导入路径的 glob，匹配任意一个即属于该分组 */
+    glob?: string | string[]
+    /** 该分组之前的分隔符，优先于全局的 separator */
+    separator?: string
+}
+
+/** 由声明式分组配置编译得到的函数 */
+export interface CompiledGroupConfig extends GroupPresetConfig {
+    /** 分隔符 */
+    separator: SeparatorFunction
+}
+
 /** 插件配置 */
 export interface PluginConfig {
+    /** 可选的，内置的分组预设，会提供默认的 getGroup 和 sortGroup，显式配置的 getGroup 和 sortGroup 优先 */
+    groupPreset?: GroupPreset
+    /** 可选的，声明式的分组配置，按照数组顺序匹配和排序分组，优先于 groupPreset */
+    groups?: GroupConfig[]
+    /** 是否读取 package.json 的 imports 和工作区配置，将子路径导入和工作区中的包识别为 internal，默认为 false */
+    packageAware?: boolean
     /** 可选的，获取分组名称 */
     getGroup?: GetGroupFunction
     /** 可选的，默认按照分组名称的字母顺序排序 */
     sortGroup?: SortGroupFunction
+    /** 可选的，分组的顺序，* 代表未列出的分组，没有 * 时未列出的分组排在最后，优先于 groupPreset 和 groups 的顺序，显式配置的 sortGroup 优先 */
+    groupOrder?: string[]
+    /** 副作用分组的位置，默认为 last，排在所有普通分组之后，自定义的 getGroup 没有配置 sortGroup 和 groupOrder 时默认只按照分组名称排序 */
+    sideEffectGroupPlacement?: SideEffectGroupPlacement
     /** 可选的，默认按照导入语句的 path 的字母顺序排序 */
     sortImportStatement?: SortImportStatementFunction
     /** 可选的，默认按照导入内容的 name 的字母顺序排序，默认按照优先 type 类型在前，其次按照最终导入的内容名称的字母顺序排序 */
     sortImportContent?: SortImportContentFunction
+    /** 默认的导入内容排序函数中 type 和 typeof 导入内容的位置，默认为 first */
+    typeSpecifierPlacement?: TypeSpecifierPlacement
+    /** 默认的导入内容排序函数使用的名称，默认为 local */
+    sortSpecifiersBy?: SortSpecifiersBy
+    /** 可选的，默认的分组、导入语句和导入内容排序使用的字符串比较规则 */
+    collation?: CollationConfig
+    /** 可选的，默认的导入语句排序函数中相对路径导入的排序规则 */
+    relativeImports?: RelativeImportSortConfig
     /** 分隔符，分组之间的分隔符，默认为 undefined */
     separator?: string | SeparatorFunction
     /** 是否对副作用导入进行排序，默认为 false */
     sortSideEffect?: boolean
     /** 是否删除未使用的导入，默认为 false */
     removeUnusedImports?: boolean
+    /** 是否将旧的 assert 导入属性语法转换为 with，默认为 false */
+    normalizeAssert?: boolean
+    /** 是否排序文件中所有连续的导入/导出语句块，默认为 false，只排序文件开头的导入语句块 */
+    sortAllImportRegions?: boolean
+    /** 是否将分散的顶层导入语句提升到文件开头的导入语句块中，默认为 false，带有 sort-imports-barrier 注释的语句之后的导入保持原位 */
+    hoistImports?: boolean
+    /** 是否识别文件开头的 CommonJS require 语句，比如 const x = require("x")，默认为 false */
+    commonjs?: boolean
+    /** embeddedLanguageFormatting 为 off 时是否仍然排序 Markdown 和 MDX 中 ts、tsx、js、jsx 代码块的导入语句，默认为 false */
+    sortCodeBlocks?: boolean
+    /** 是否排序文件开头的三斜线指令，types 排在 path 之前，相同属性按字母顺序排序，默认为 false，重复的指令总是会被去除 */
+    sortTripleSlashDirectives?: boolean
+    /** 额外的 Babel 解析器插件，比如 ["pipelineOperator", { proposal: "hack", topicToken: "%" }]，同名插件会覆盖默认的配置 */
+    babelPlugins?: ParserPlugin[]
     /** 要合并的其他 Prettier 插件，按传入顺序执行 */
     otherPlugins?: Plugin[]
     /** 传递给其他插件的 Prettier 配置选项 */
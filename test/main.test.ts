@@ -1,8 +1,13 @@
-import { describe, expect, it } from "bun:test"
-import { format } from "prettier"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+
+import { afterEach, describe, expect, it } from "bun:test"
+import { format, Plugin } from "prettier"
+import { format as formatWithPrettier30 } from "prettier-3.0"
 import * as tailwindPlugin from "prettier-plugin-tailwindcss"
 
-import plugin, { createPlugin } from "../dist/index.js"
+import plugin, { createPlugin, createRelativeImportComparator, helpers } from "../dist/index.js"
 
 /** 格式化代码的辅助函数 */
 async function formatCode(code: string, config?: any): Promise<string> {
@@ -13,6 +18,14 @@ async function formatCode(code: string, config?: any): Promise<string> {
     })
 }
 
+/** 使用最低支持的 Prettier 版本格式化代码的辅助函数 */
+async function formatCodeWithPrettier30(code: string, customPlugin: any): Promise<string> {
+    return await formatWithPrettier30(code, {
+        parser: "typescript",
+        plugins: [customPlugin],
+    })
+}
+
 /** 格式化代码的辅助函数（使用自定义插件实例） */
 async function formatCodeWithPlugin(code: string, customPlugin: any, config?: any): Promise<string> {
     return await format(code, {
@@ -772,6 +785,92 @@ const node: ReactNode = null`
 const Component: FC = () => null;
 const app = React.createElement("div");
 const node: ReactNode = null;
+`)
+    })
+
+    it("保留 import type 默认导入和命名空间导入", async () => {
+        const input = `import type * as T from "./types"
+import type React from "react"
+
+const node: React.ReactNode = null
+const value: T.Value = 1`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`import type React from "react";
+import type * as T from "./types";
+
+const node: React.ReactNode = null;
+const value: T.Value = 1;
+`)
+    })
+
+    it("type 默认导入与普通导入合并时拆分为独立的语句", async () => {
+        const input = `// React 相关
+import type React from "react"
+import { useState } from "react"
+
+const node: React.ReactNode = null
+const state = useState(0)`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`// React 相关
+import type React from "react";
+import { useState } from "react";
+
+const node: React.ReactNode = null;
+const state = useState(0);
+`)
+    })
+
+    it("同一个内容既有 type 导入又有普通导入时保留普通导入", async () => {
+        const input = `import type { FC } from "react"
+import { FC, useState } from "react"
+
+const Component: FC = () => null
+const state = useState(0)`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`import { FC, useState } from "react";
+
+const Component: FC = () => null;
+const state = useState(0);
+`)
+    })
+
+    it("带注释的多行 import type 不重复 type 关键字", async () => {
+        const input = `import type {
+    // 组件类型
+    FC,
+    ReactNode,
+} from "react"
+
+const Component: FC = () => null
+const node: ReactNode = null`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`import type {
+  // 组件类型
+  FC,
+  ReactNode,
+} from "react";
+
+const Component: FC = () => null;
+const node: ReactNode = null;
+`)
+    })
+
+    it("export type { default } 保留 type 关键字", async () => {
+        const input = `export type { default as Props } from "./Props"
+export { type default as State, reducer } from "./State"`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`export type { default as Props } from "./Props";
+export { type default as State, reducer } from "./State";
 `)
     })
 })
@@ -891,6 +990,1869 @@ export { default as helper } from "./helper"`
         expect(result).toContain('export { Button, Card } from "@/components"')
         expect(result).toContain('export { default as helper } from "./helper"')
     })
+
+    it("export * as ns from 语句保留命名空间", async () => {
+        const input = `export * as utils from "./utils"
+export * as components from "@/components"
+export { Button } from "@/components"`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`export * as components from "@/components";
+export { Button } from "@/components";
+export * as utils from "./utils";
+`)
+    })
+
+    it("export type * from 和 export type * as ns from 保留 type 关键字", async () => {
+        const input = `export type * from "./types"
+export type * as Api from "./api"
+export * from "./runtime"`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`export type * from "./types";
+export type * as Api from "./api";
+export * from "./runtime";
+`)
+    })
+})
+
+describe("分组预设测试", () => {
+    it("node 预设：builtin > external > internal > relative", async () => {
+        const customPlugin = createPlugin({
+            groupPreset: "node",
+            separator: "",
+        })
+
+        const input = `import { helper } from "./helper"
+import { Button } from "@/components/Button"
+import { readFile } from "node:fs/promises"
+import { debounce } from "lodash"
+import { join } from "path"
+import { config } from "../config"
+
+const h = helper()
+const btn = <Button />
+const file = readFile(join("a", "b"))
+const fn = debounce(() => {})
+const c = config`
+
+        const result = await formatCodeWithPlugin(input, customPlugin)
+
+        expect(result).toBe(`import { readFile } from "node:fs/promises";
+import { join } from "path";
+
+import { debounce } from "lodash";
+
+import { Button } from "@/components/Button";
+
+import { config } from "../config";
+import { helper } from "./helper";
+
+const h = helper();
+const btn = <Button />;
+const file = readFile(join("a", "b"));
+const fn = debounce(() => {});
+const c = config;
+`)
+    })
+
+    it("eslint-import-order 预设：区分 parent、sibling 和 index", async () => {
+        const input = `import { index } from "."
+import { helper } from "./helper"
+import { config } from "../config"
+import { debounce } from "lodash"
+import fs from "fs"
+
+const i = index
+const h = helper()
+const c = config
+const fn = debounce(() => {})
+const f = fs`
+
+        const result = await formatCode(input, {
+            importSortGroupPreset: "eslint-import-order",
+            importSortSeparator: "",
+        })
+
+        expect(result).toBe(`import fs from "fs";
+
+import { debounce } from "lodash";
+
+import { config } from "../config";
+
+import { helper } from "./helper";
+
+import { index } from ".";
+
+const i = index;
+const h = helper();
+const c = config;
+const fn = debounce(() => {});
+const f = fs;
+`)
+    })
+
+    it("显式配置的 getGroup 优先于预设", async () => {
+        const customPlugin = createPlugin({
+            groupPreset: "node",
+            getGroup: () => "all",
+            separator: "",
+        })
+
+        const input = `import { helper } from "./helper"
+import fs from "fs"
+
+const h = helper()
+const f = fs`
+
+        const result = await formatCodeWithPlugin(input, customPlugin)
+
+        expect(result).toBe(`import fs from "fs";
+import { helper } from "./helper";
+
+const h = helper();
+const f = fs;
+`)
+    })
+
+    it("不使用预设时 . 和 .. 也作为相对路径排在模块之后", async () => {
+        const input = `import x from "."
+import y from "./y"
+import p from ".."
+import z from "z"`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`import z from "z";
+import x from ".";
+import p from "..";
+import y from "./y";
+`)
+    })
+})
+
+describe("声明式分组配置测试", () => {
+    it("通过 Prettier 选项配置分组：按照数组顺序匹配和排序", async () => {
+        const input = `import { helper } from "./helper"
+import { Button } from "@/components/Button"
+import { debounce } from "lodash"
+import { createRoot } from "react-dom/client"
+import { useState } from "react"
+
+const h = helper()
+const btn = <Button />
+const fn = debounce(() => {})
+const root = createRoot(document.body)
+const state = useState(0)`
+
+        const result = await formatCode(input, {
+            importSortSeparator: "",
+            importSortGroups: [
+                { name: "react", pattern: "^react(-dom)?(/|$)" },
+                { name: "external", pattern: "^[^.@]" },
+                { name: "internal", glob: "@/**" },
+                { name: "relative", glob: ["./**", "../**"] },
+            ],
+        })
+
+        expect(result).toBe(`import { useState } from "react";
+import { createRoot } from "react-dom/client";
+
+import { debounce } from "lodash";
+
+import { Button } from "@/components/Button";
+
+import { helper } from "./helper";
+
+const h = helper();
+const btn = <Button />;
+const fn = debounce(() => {});
+const root = createRoot(document.body);
+const state = useState(0);
+`)
+    })
+
+    it("分组自身的分隔符优先于全局分隔符", async () => {
+        const input = `import { helper } from "./helper"
+import { Button } from "@/components/Button"
+import { debounce } from "lodash"
+
+const h = helper()
+const btn = <Button />
+const fn = debounce(() => {})`
+
+        const result = await formatCode(input, {
+            importSortGroups: JSON.stringify([
+                { name: "external", pattern: "^[^.@]" },
+                { name: "internal", glob: "@/**" },
+                { name: "relative", glob: "./*", separator: "// relative" },
+            ]),
+        })
+
+        expect(result).toBe(`import { debounce } from "lodash";
+import { Button } from "@/components/Button";
+
+// relative
+import { helper } from "./helper";
+
+const h = helper();
+const btn = <Button />;
+const fn = debounce(() => {});
+`)
+    })
+
+    it("未匹配任何分组的导入排在最后", async () => {
+        const customPlugin = createPlugin({
+            groups: [{ name: "relative", glob: "./*" }],
+            separator: "",
+        })
+
+        const input = `import { debounce } from "lodash"
+import { helper } from "./helper"
+
+const h = helper()
+const fn = debounce(() => {})`
+
+        const result = await formatCodeWithPlugin(input, customPlugin)
+
+        expect(result).toBe(`import { helper } from "./helper";
+
+import { debounce } from "lodash";
+
+const h = helper();
+const fn = debounce(() => {});
+`)
+    })
+
+    it("JSON 格式有误时报告错误", async () => {
+        await expect(formatCode(`import b from "b"\nimport a from "a"`, { importSortGroups: "[oops" })).rejects.toThrow("Invalid import sort groups")
+    })
+
+    it("正则表达式无效时报告错误", async () => {
+        const customPlugin = createPlugin({
+            groups: [{ name: "broken", pattern: "(" }],
+        })
+
+        await expect(formatCodeWithPlugin(`import b from "b"\nimport a from "a"`, customPlugin)).rejects.toThrow('invalid pattern in group "broken"')
+    })
+})
+
+describe("tsconfig 路径别名测试", () => {
+    /** 测试中创建的临时项目 */
+    const dirs: string[] = []
+
+    afterEach(() => {
+        dirs.splice(0).forEach(dir => rmSync(dir, { recursive: true, force: true }))
+    })
+
+    /** 创建一个包含 tsconfig.json 的临时项目 */
+    function createProject() {
+        const dir = mkdtempSync(join(tmpdir(), "prettier-plugin-sort-imports-"))
+        dirs.push(dir)
+        mkdirSync(join(dir, "shared"))
+        mkdirSync(join(dir, "src"))
+
+        writeFileSync(
+            join(dir, "tsconfig.base.json"),
+            `{
+    "compilerOptions": {
+        // baseUrl 下的目录也视为路径别名
+        "baseUrl": ".",
+    },
+}`,
+        )
+
+        writeFileSync(
+            join(dir, "tsconfig.json"),
+            `{
+    /* 继承 baseUrl */
+    "extends": "./tsconfig.base",
+    "compilerOptions": {
+        "paths": {
+            "@app/*": ["./src/*"],
+        },
+    },
+}`,
+        )
+
+        return dir
+    }
+
+    it("paths 和 baseUrl 中的路径被识别为别名", async () => {
+        const dir = createProject()
+
+        const input = `import { helper } from "./helper"
+import { shared } from "shared/utils"
+import { Button } from "@app/components/Button"
+import { debounce } from "lodash"
+import { useState } from "react"
+
+const h = helper()
+const s = shared
+const btn = <Button />
+const fn = debounce(() => {})
+const state = useState(0)`
+
+        const result = await formatCode(input, {
+            filepath: join(dir, "src", "index.tsx"),
+        })
+
+        expect(result).toBe(`import { debounce } from "lodash";
+import { useState } from "react";
+import { Button } from "@app/components/Button";
+import { shared } from "shared/utils";
+import { helper } from "./helper";
+
+const h = helper();
+const s = shared;
+const btn = <Button />;
+const fn = debounce(() => {});
+const state = useState(0);
+`)
+    })
+
+    it("分组预设使用 tsconfig 中的路径别名", async () => {
+        const dir = createProject()
+
+        const input = `import { Button } from "@app/components/Button"
+import { debounce } from "lodash"
+
+const btn = <Button />
+const fn = debounce(() => {})`
+
+        const result = await formatCode(input, {
+            filepath: join(dir, "src", "index.tsx"),
+            importSortGroupPreset: "node",
+            importSortSeparator: "",
+        })
+
+        expect(result).toBe(`import { debounce } from "lodash";
+
+import { Button } from "@app/components/Button";
+
+const btn = <Button />;
+const fn = debounce(() => {});
+`)
+    })
+
+    it("没有 filepath 时不识别 paths 中的路径别名", async () => {
+        const input = `import { Button } from "@app/components/Button"
+import { debounce } from "lodash"
+
+const btn = <Button />
+const fn = debounce(() => {})`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`import { Button } from "@app/components/Button";
+import { debounce } from "lodash";
+
+const btn = <Button />;
+const fn = debounce(() => {});
+`)
+    })
+})
+
+describe("package.json imports 和工作区包测试", () => {
+    /** 测试中创建的临时项目 */
+    const dirs: string[] = []
+
+    afterEach(() => {
+        dirs.splice(0).forEach(dir => rmSync(dir, { recursive: true, force: true }))
+    })
+
+    /** 创建一个包含工作区的临时项目，返回 app 包中的文件路径 */
+    function createWorkspace(usePnpm: boolean) {
+        const dir = mkdtempSync(join(tmpdir(), "prettier-plugin-sort-imports-"))
+        dirs.push(dir)
+        mkdirSync(join(dir, "packages", "ui"), { recursive: true })
+        mkdirSync(join(dir, "packages", "app", "src"), { recursive: true })
+
+        if (usePnpm) {
+            writeFileSync(join(dir, "package.json"), JSON.stringify({ name: "root" }))
+            writeFileSync(join(dir, "pnpm-workspace.yaml"), `packages:\n  # 所有包\n  - "packages/*"\n`)
+        } else {
+            writeFileSync(join(dir, "package.json"), JSON.stringify({ name: "root", workspaces: ["packages/*"] }))
+        }
+
+        writeFileSync(join(dir, "packages", "ui", "package.json"), JSON.stringify({ name: "@acme/ui" }))
+
+        writeFileSync(
+            join(dir, "packages", "app", "package.json"),
+            JSON.stringify({ name: "app", imports: { "#db": "./src/db.ts", "#utils/*": "./src/utils/*.ts" } }),
+        )
+
+        return join(dir, "packages", "app", "src", "index.ts")
+    }
+
+    const input = `import { helper } from "./helper"
+import { Button } from "@acme/ui"
+import { format } from "#utils/format"
+import { db } from "#db"
+import { debounce } from "lodash"
+
+const h = helper()
+const btn = Button
+const f = format
+const d = db
+const fn = debounce(() => {})`
+
+    it("子路径导入和工作区包识别为 internal，排在第三方模块之后", async () => {
+        const result = await formatCode(input, {
+            filepath: createWorkspace(false),
+            importSortPackageAware: true,
+        })
+
+        expect(result).toBe(`import { debounce } from "lodash";
+import { Button } from "@acme/ui";
+import { db } from "#db";
+import { format } from "#utils/format";
+import { helper } from "./helper";
+
+const h = helper();
+const btn = Button;
+const f = format;
+const d = db;
+const fn = debounce(() => {});
+`)
+    })
+
+    it("支持 pnpm-workspace.yaml，并且分组预设将内部包归入 internal 分组", async () => {
+        const customPlugin = createPlugin({
+            packageAware: true,
+            groupPreset: "node",
+            separator: "",
+        })
+
+        const result = await formatCodeWithPlugin(input, customPlugin, {
+            filepath: createWorkspace(true),
+        })
+
+        expect(result).toBe(`import { debounce } from "lodash";
+
+import { Button } from "@acme/ui";
+import { db } from "#db";
+import { format } from "#utils/format";
+
+import { helper } from "./helper";
+
+const h = helper();
+const btn = Button;
+const f = format;
+const d = db;
+const fn = debounce(() => {});
+`)
+    })
+
+    it("默认不识别内部包", async () => {
+        const result = await formatCode(input, {
+            filepath: createWorkspace(false),
+        })
+
+        expect(result).toBe(`import { Button } from "@acme/ui";
+import { db } from "#db";
+import { format } from "#utils/format";
+import { debounce } from "lodash";
+import { helper } from "./helper";
+
+const h = helper();
+const btn = Button;
+const f = format;
+const d = db;
+const fn = debounce(() => {});
+`)
+    })
+})
+
+describe("回调函数上下文测试", () => {
+    it("getGroup 可以获取文件路径、解析器和相对路径解析后的绝对路径", async () => {
+        const contexts: any[] = []
+
+        const customPlugin = createPlugin({
+            getGroup: (statement, context) => {
+                contexts.push(context)
+                // 与当前文件在同一个功能目录中的导入放在最后
+                if (context.resolvedPath?.startsWith("/project/src/features/user/")) return "feature"
+                return "other"
+            },
+            sortGroup: (a, b) => Number(a.name === "feature") - Number(b.name === "feature"),
+        })
+
+        const input = `import { useUser } from "./useUser"
+import { request } from "../../utils/request"
+import { useState } from "react"
+
+const user = useUser()
+const r = request
+const state = useState(0)`
+
+        const result = await formatCodeWithPlugin(input, customPlugin, {
+            filepath: "/project/src/features/user/index.tsx",
+        })
+
+        expect(result).toBe(`import { useState } from "react";
+import { request } from "../../utils/request";
+import { useUser } from "./useUser";
+
+const user = useUser();
+const r = request;
+const state = useState(0);
+`)
+
+        const userContext = contexts.find(context => context.index === 0)
+        expect(userContext.filepath).toBe("/project/src/features/user/index.tsx")
+        expect(userContext.parser).toBe("typescript")
+        expect(userContext.resolvedPath).toBe("/project/src/features/user/useUser")
+        expect(contexts.find(context => context.index === 2).resolvedPath).toBeUndefined()
+    })
+
+    it("sortImportStatement 可以通过上下文获取原始索引", async () => {
+        const customPlugin = createPlugin({
+            // 保持导入语句的原始顺序
+            sortImportStatement: (a, b, context) => context.a.index - context.b.index,
+        })
+
+        const input = `import { z } from "z"
+import { a } from "a"
+import { m } from "m"
+
+const value = [z, a, m]`
+
+        const result = await formatCodeWithPlugin(input, customPlugin)
+
+        expect(result).toBe(`import { z } from "z";
+import { a } from "a";
+import { m } from "m";
+
+const value = [z, a, m];
+`)
+    })
+
+    it("在测试文件中将测试库放在最前", async () => {
+        const customPlugin = createPlugin({
+            getGroup: (statement, context) => {
+                const isTestFile = /\.test\.[jt]sx?$/.test(context.filepath ?? "")
+                return isTestFile && statement.path.startsWith("@testing-library/") ? "testing" : "other"
+            },
+            sortGroup: (a, b, context) => {
+                expect(context.filepath).toBeDefined()
+                return Number(b.name === "testing") - Number(a.name === "testing")
+            },
+        })
+
+        const input = `import { Button } from "./Button"
+import { render } from "@testing-library/react"
+
+render(<Button />)`
+
+        const result = await formatCodeWithPlugin(input, customPlugin, {
+            filepath: "/project/src/Button.test.tsx",
+        })
+
+        expect(result).toBe(`import { render } from "@testing-library/react";
+import { Button } from "./Button";
+
+render(<Button />);
+`)
+    })
+})
+
+describe("导入属性测试", () => {
+    it("保留 with 导入属性", async () => {
+        const input = `import data from "./data.json" with { type: "json" }
+import { helper } from "./helper"
+export { default as config } from "./config.json" with { type: "json" }
+
+const value = helper(data)`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`export { default as config } from "./config.json" with { type: "json" };
+import data from "./data.json" with { type: "json" };
+import { helper } from "./helper";
+
+const value = helper(data);
+`)
+    })
+
+    it("导入属性不同的语句不合并", async () => {
+        const input = `import { a } from "./data.json" with { type: "json" }
+import { b } from "./data.json"
+import { c } from "./data.json" with { type: "json" }
+
+const value = [a, b, c]`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`import { a, c } from "./data.json" with { type: "json" };
+import { b } from "./data.json";
+
+const value = [a, b, c];
+`)
+    })
+
+    it("默认保留 assert 语法，开启 importSortNormalizeAssert 后转换为 with", async () => {
+        const input = `import data from "./data.json" assert { type: "json" }
+
+const value = data`
+
+        const preserved = await formatCode(input)
+
+        expect(preserved).toBe(`import data from "./data.json" assert { type: "json" };
+
+const value = data;
+`)
+
+        const normalized = await formatCode(input, {
+            parser: "babel",
+            importSortNormalizeAssert: true,
+        })
+
+        expect(normalized).toBe(`import data from "./data.json" with { type: "json" };
+
+const value = data;
+`)
+    })
+})
+
+describe("导入阶段测试", () => {
+    it("保留 import source 和 import defer", async () => {
+        const input = `import defer * as heavy from "./heavy"
+import source wasm from "./module.wasm"
+import { helper } from "./helper"
+
+const value = [heavy, wasm, helper]`
+
+        const result = await formatCode(input, { parser: "babel" })
+
+        expect(result).toBe(`import defer * as heavy from "./heavy";
+import { helper } from "./helper";
+import source wasm from "./module.wasm";
+
+const value = [heavy, wasm, helper];
+`)
+    })
+
+    it("带有导入阶段的语句不与普通导入合并", async () => {
+        const input = `import source wasm from "./module.wasm"
+import init from "./module.wasm"
+
+const value = [wasm, init]`
+
+        const result = await formatCode(input, { parser: "babel-ts" })
+
+        expect(result).toBe(`import source wasm from "./module.wasm";
+import init from "./module.wasm";
+
+const value = [wasm, init];
+`)
+    })
+
+    it("名称为 source 和 defer 的默认导入仍然是普通导入", async () => {
+        const input = `import source from "./source"
+import defer from "./defer"
+
+const value = [source, defer]`
+
+        const result = await formatCode(input, { parser: "babel" })
+
+        expect(result).toBe(`import defer from "./defer";
+import source from "./source";
+
+const value = [source, defer];
+`)
+    })
+})
+
+describe("import x = require() 语句测试", () => {
+    it("import x = require() 按模块路径与其他导入一起排序", async () => {
+        const input = `import z from "zod"
+import fs = require("fs") // 文件系统
+import { a } from "./a"
+
+console.log(fs, z, a)`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`import fs = require("fs"); // 文件系统
+import z from "zod";
+import { a } from "./a";
+
+console.log(fs, z, a);
+`)
+    })
+
+    it("保留 import type 和 export import", async () => {
+        const input = `export import path = require("path")
+import type Express = require("express")
+
+const app: Express = create()`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`import type Express = require("express");
+export import path = require("path");
+
+const app: Express = create();
+`)
+    })
+
+    it("命名空间别名不属于导入语句块", async () => {
+        const input = `import { b } from "./b"
+import NS = Foo.Bar
+import { a } from "./a"
+
+console.log(NS, a, b)`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`import { b } from "./b";
+
+import NS = Foo.Bar;
+import { a } from "./a";
+
+console.log(NS, a, b);
+`)
+    })
+})
+
+describe("多个导入语句块测试", () => {
+    const input = `import { z } from "./z"
+import { a } from "./a"
+
+jest.mock("./z")
+
+import { d } from "./d"
+import { c } from "./c"
+
+const value = [a, c, d, z]`
+
+    it("默认只排序文件开头的导入语句块", async () => {
+        const result = await formatCode(input)
+
+        expect(result).toBe(`import { a } from "./a";
+import { z } from "./z";
+
+jest.mock("./z");
+
+import { d } from "./d";
+import { c } from "./c";
+
+const value = [a, c, d, z];
+`)
+    })
+
+    it("importSortAllRegions 开启时每个导入语句块独立排序", async () => {
+        const result = await formatCode(input, { importSortAllRegions: true })
+
+        expect(result).toBe(`import { a } from "./a";
+import { z } from "./z";
+
+jest.mock("./z");
+
+import { c } from "./c";
+import { d } from "./d";
+
+const value = [a, c, d, z];
+`)
+    })
+
+    it("代码的行尾注释不会移动到导入语句块中", async () => {
+        const input = `const a = 1 // 常量
+// 工具函数
+import { util } from "./util"
+import { helper } from "./helper"
+
+console.log(a, util, helper)`
+
+        const result = await formatCodeWithPlugin(input, createPlugin({ sortAllImportRegions: true }))
+
+        expect(result).toBe(`const a = 1; // 常量
+import { helper } from "./helper";
+// 工具函数
+import { util } from "./util";
+
+console.log(a, util, helper);
+`)
+    })
+
+    it("删除未使用的导入时会分析其他语句块之前的代码", async () => {
+        const input = `import { a } from "./a"
+
+console.log(b)
+
+import { b } from "./b"
+import { unused } from "./unused"`
+
+        const result = await formatCode(input, { importSortAllRegions: true, importSortRemoveUnused: true })
+
+        expect(result).toBe(`console.log(b);
+
+import { b } from "./b";
+`)
+    })
+})
+
+describe("提升分散的导入语句测试", () => {
+    it("importSortHoist 开启时将分散的导入语句连同注释提升到文件开头", async () => {
+        const input = `import { z } from "./z"
+
+const a = 1 // 常量
+// 工具函数
+import { b } from "./b"
+function f() {}
+import "./side"
+
+console.log(a, b, z, f)`
+
+        const result = await formatCode(input, { importSortHoist: true })
+
+        expect(result).toBe(`// 工具函数
+import { b } from "./b";
+import { z } from "./z";
+import "./side";
+
+const a = 1; // 常量
+function f() {}
+
+console.log(a, b, z, f);
+`)
+    })
+
+    it("没有导入语句块时提升到文件顶部注释之后", async () => {
+        const input = `// 文件顶部注释
+
+const a = 1
+import { b } from "./b"
+
+console.log(a, b)`
+
+        const result = await formatCodeWithPlugin(input, createPlugin({ hoistImports: true }))
+
+        expect(result).toBe(`// 文件顶部注释
+
+import { b } from "./b";
+
+const a = 1;
+
+console.log(a, b);
+`)
+    })
+
+    it("不会越过带有 sort-imports-barrier 注释的语句", async () => {
+        const input = `import { z } from "./z"
+const a = 1
+import { b } from "./b"
+
+// sort-imports-barrier
+jest.mock("./c")
+import { c } from "./c"
+
+console.log(a, b, c, z)`
+
+        const result = await formatCode(input, { importSortHoist: true })
+
+        expect(result).toBe(`import { b } from "./b";
+import { z } from "./z";
+
+const a = 1;
+
+// sort-imports-barrier
+jest.mock("./c");
+import { c } from "./c";
+
+console.log(a, b, c, z);
+`)
+    })
+})
+
+describe("CommonJS require 语句测试", () => {
+    it("默认不处理 require 语句", async () => {
+        const input = `const z = require("z")
+const a = require("a")
+
+console.log(a, z)`
+
+        const result = await formatCode(input, { parser: "babel" })
+
+        expect(result).toBe(`const z = require("z");
+const a = require("a");
+
+console.log(a, z);
+`)
+    })
+
+    it("importSortCommonJS 开启时排序并合并 require 语句", async () => {
+        const input = `const { b: bee, a } = require("./utils") // 工具函数
+const path = require("path")
+const { c } = require("./utils")
+const fs = require("fs")
+
+console.log(path, fs, bee, a, c)`
+
+        const result = await formatCode(input, { parser: "babel", importSortCommonJS: true })
+
+        expect(result).toBe(`const fs = require("fs");
+const path = require("path");
+const { a, b: bee, c } = require("./utils"); // 工具函数
+
+console.log(path, fs, bee, a, c);
+`)
+    })
+
+    it("不同声明关键字的 require 语句不合并，require 调用作为副作用导入", async () => {
+        const input = `let { b } = require("./utils")
+const { a } = require("./utils")
+require("./polyfill")
+const z = require("z")
+
+console.log(a, b, z)`
+
+        const result = await formatCodeWithPlugin(input, createPlugin({ commonjs: true }), { parser: "babel" })
+
+        expect(result).toBe(`let { b } = require("./utils");
+const { a } = require("./utils");
+require("./polyfill");
+const z = require("z");
+
+console.log(a, b, z);
+`)
+    })
+
+    it("require 语句支持分组和删除未使用的导入", async () => {
+        const input = `const { helper } = require("./helper")
+const { unused } = require("./unused")
+const os = require("os")
+const lodash = require("lodash")
+
+console.log(helper, lodash)`
+
+        const result = await formatCode(input, {
+            parser: "babel",
+            importSortCommonJS: true,
+            importSortRemoveUnused: true,
+            importSortGroupPreset: "node",
+            importSortSeparator: "",
+        })
+
+        expect(result).toBe(`const lodash = require("lodash");
+
+const { helper } = require("./helper");
+
+console.log(helper, lodash);
+`)
+    })
+})
+
+describe("单文件组件测试", () => {
+    it("排序 Vue 组件中的 script setup", async () => {
+        const input = `<script setup lang="ts">
+import { formatDate } from "./utils"
+import { ref } from "vue"
+
+const count = ref(0)
+</script>
+
+<template><div>{{ formatDate(count) }}</div></template>
+`
+
+        const result = await formatCode(input, { parser: "vue" })
+
+        expect(result).toBe(`<script setup lang="ts">
+import { ref } from "vue";
+import { formatDate } from "./utils";
+
+const count = ref(0);
+</script>
+
+<template>
+  <div>{{ formatDate(count) }}</div>
+</template>
+`)
+    })
+
+    it("删除未使用的导入时保留模板中使用的导入", async () => {
+        const input = `<script setup>
+import MyButton from "./MyButton.vue"
+import { unused } from "./unused"
+import { label } from "./label"
+</script>
+
+<template><my-button>{{ label }}</my-button></template>
+`
+
+        const result = await formatCode(input, { parser: "vue", importSortRemoveUnused: true })
+
+        expect(result).toBe(`<script setup>
+import { label } from "./label";
+import MyButton from "./MyButton.vue";
+</script>
+
+<template>
+  <my-button>{{ label }}</my-button>
+</template>
+`)
+    })
+
+    it("排序 Astro 组件的 frontmatter", async () => {
+        // 只原样输出文本的 Astro 插件，用于测试 frontmatter 的处理
+        const astroPlugin: Plugin = {
+            parsers: {
+                astro: {
+                    parse: text => ({ type: "root", text }),
+                    astFormat: "astro-text",
+                    locStart: () => 0,
+                    locEnd: node => node.text.length,
+                },
+            },
+            printers: {
+                "astro-text": {
+                    print: path => path.node.text,
+                },
+            },
+        }
+
+        const input = `---
+import Layout from "../layouts/Layout.astro"
+import { getCollection } from "astro:content"
+
+const posts = await getCollection("blog")
+---
+
+<Layout posts={posts} />
+`
+
+        const result = await formatCodeWithPlugin(input, createPlugin({ otherPlugins: [astroPlugin] }), { parser: "astro" })
+
+        // 测试插件不会格式化 frontmatter，只检查导入语句的顺序
+        expect(result).toStartWith(`---
+import { getCollection } from "astro:content"
+import Layout from "../layouts/Layout.astro"
+`)
+        expect(result).toEndWith(`const posts = await getCollection("blog")
+---
+
+<Layout posts={posts} />
+`)
+    })
+})
+
+describe("最低支持的 Prettier 版本测试", () => {
+    const input = `import { formatDate } from "./utils"
+import { ref } from "vue"
+
+const count = ref(0)
+`
+
+    const expected = `import { ref } from "vue";
+import { formatDate } from "./utils";
+
+const count = ref(0);
+`
+
+    it("Prettier 3.0 不会等待 preprocess，排序结果仍然正确", async () => {
+        const result = await formatCodeWithPrettier30(input, plugin)
+
+        expect(result).toBe(expected)
+    })
+
+    it("Prettier 3.0 中合并其他插件的同步 preprocess", async () => {
+        const otherPlugin: Plugin = {
+            parsers: {
+                typescript: {
+                    ...(plugin.parsers!.typescript as any),
+                    preprocess: (text: string) => text.replace("count", "total"),
+                },
+            },
+        }
+
+        const result = await formatCodeWithPrettier30(input, createPlugin({ otherPlugins: [otherPlugin] }))
+
+        expect(result).toBe(expected.replace("count", "total"))
+    })
+
+    it("Prettier 3.7 及以上版本中其他插件的 preprocess 返回 Promise 时等待它完成", async () => {
+        const otherPlugin: Plugin = {
+            parsers: {
+                typescript: {
+                    ...(plugin.parsers!.typescript as any),
+                    preprocess: async (text: string) => text.replace("count", "total"),
+                },
+            },
+        }
+
+        const result = await formatCodeWithPlugin(input, createPlugin({ otherPlugins: [otherPlugin] }))
+
+        expect(result).toBe(expected.replace("count", "total"))
+    })
+})
+
+describe("Markdown 和 MDX 测试", () => {
+    it("排序 MDX 顶层的导入语句，删除未使用的导入时保留文档中使用的导入", async () => {
+        const input = `import { Tabs } from "./tabs"
+import { Callout } from "./callout"
+import { Unused } from "./unused"
+export const meta = { tabs: Tabs }
+
+# 标题
+
+<Callout />
+`
+
+        const result = await formatCode(input, { parser: "mdx", importSortRemoveUnused: true })
+
+        expect(result).toBe(`import { Callout } from "./callout";
+import { Tabs } from "./tabs";
+
+export const meta = { tabs: Tabs };
+
+# 标题
+
+<Callout />
+`)
+    })
+
+    it("默认在格式化嵌入的代码时排序代码块中的导入语句，不删除未使用的导入", async () => {
+        const input = `# 示例
+
+\`\`\`ts
+import { z } from "./z"
+import { a } from "./a"
+\`\`\`
+`
+
+        const result = await formatCode(input, { parser: "markdown", importSortRemoveUnused: true })
+
+        expect(result).toBe(`# 示例
+
+\`\`\`ts
+import { a } from "./a";
+import { z } from "./z";
+\`\`\`
+`)
+    })
+
+    it("关闭 embeddedLanguageFormatting 时默认不排序代码块中的导入语句", async () => {
+        const input = `# 示例
+
+\`\`\`ts
+import { z } from "./z"
+import { a } from "./a"
+\`\`\`
+`
+
+        const result = await formatCode(input, { parser: "markdown", embeddedLanguageFormatting: "off" })
+
+        expect(result).toBe(input)
+    })
+
+    it("importSortCodeBlocks 开启时关闭 embeddedLanguageFormatting 仍然排序代码块中的导入语句并保留缩进", async () => {
+        const input = `# 示例
+
+- 步骤
+
+  \`\`\`tsx
+  import { z } from "./z"
+  import { a } from "./a"
+  \`\`\`
+`
+
+        const result = await formatCodeWithPlugin(input, createPlugin({ sortCodeBlocks: true }), { parser: "markdown", embeddedLanguageFormatting: "off" })
+
+        expect(result).toBe(`# 示例
+
+- 步骤
+
+  \`\`\`tsx
+  import { a } from "./a"
+  import { z } from "./z"
+  \`\`\`
+`)
+    })
+})
+
+describe("HTML 模块脚本测试", () => {
+    const input = `<!doctype html>
+<html>
+  <body>
+    <script type="module">
+      import { z } from "./z.js"
+      import { a } from "./a.js"
+
+      console.log(a, z)
+    </script>
+    <script>
+      var x = 1
+    </script>
+  </body>
+</html>
+`
+
+    it("排序 script type=module 中的导入语句", async () => {
+        const result = await formatCode(input, { parser: "html" })
+
+        expect(result).toBe(`<!doctype html>
+<html>
+  <body>
+    <script type="module">
+      import { a } from "./a.js";
+      import { z } from "./z.js";
+
+      console.log(a, z);
+    </script>
+    <script>
+      var x = 1;
+    </script>
+  </body>
+</html>
+`)
+    })
+
+    it("不格式化嵌入的代码时保留原来的缩进", async () => {
+        const result = await formatCode(input, { parser: "html", embeddedLanguageFormatting: "off" })
+
+        expect(result).toBe(`<!doctype html>
+<html>
+  <body>
+    <script type="module">
+      import { a } from "./a.js"
+      import { z } from "./z.js"
+
+      console.log(a, z)
+    </script>
+    <script>
+      var x = 1
+    </script>
+  </body>
+</html>
+`)
+    })
+})
+
+describe("Flow 测试", () => {
+    it("使用 flow 解析器时保留 import type 和 import typeof", async () => {
+        const input = `// @flow
+import typeof Config from "./config"
+import type { Props } from "./props"
+import { a } from "./a"
+
+const value: Props = a(Config)`
+
+        const result = await formatCode(input, { parser: "flow" })
+
+        expect(result).toBe(`// @flow
+import { a } from "./a";
+import typeof Config from "./config";
+import type { Props } from "./props";
+
+const value: Props = a(Config);
+`)
+    })
+
+    it("同一个内容既有 typeof 导入又有普通导入时只保留普通导入", async () => {
+        const input = `import { typeof C } from "./b"
+import { C, d } from "./b"
+
+const value = [C, d]`
+
+        const result = await formatCode(input, { parser: "babel-flow" })
+
+        expect(result).toBe(`import { C, d } from "./b";
+
+const value = [C, d];
+`)
+    })
+
+    it("typeof 默认导入与其他导入拆分为独立的语句", async () => {
+        const input = `import typeof Theme from "./theme"
+import { useTheme } from "./theme"
+
+const value: Theme = useTheme()`
+
+        const result = await formatCode(input, { parser: "flow" })
+
+        expect(result).toBe(`import typeof Theme from "./theme";
+import { useTheme } from "./theme";
+
+const value: Theme = useTheme();
+`)
+    })
+})
+
+describe("Babel 解析器插件测试", () => {
+    it("支持导出前的装饰器和参数装饰器", async () => {
+        const input = `import { Repository } from "typeorm"
+import { Injectable, Inject } from "@nestjs/common"
+import { unused } from "./unused"
+import { TOKEN } from "./token"
+
+@Injectable()
+export class UserService {
+    constructor(@Inject(TOKEN) private readonly repository: Repository) {}
+}`
+
+        const result = await formatCode(input, { filepath: "user.service.ts", importSortRemoveUnused: true })
+
+        expect(result).toBe(`import { Inject, Injectable } from "@nestjs/common";
+import { Repository } from "typeorm";
+import { TOKEN } from "./token";
+
+@Injectable()
+export class UserService {
+  constructor(@Inject(TOKEN) private readonly repository: Repository) {}
+}
+`)
+    })
+
+    it(".ts 文件不启用 JSX，可以使用尖括号类型断言", async () => {
+        const input = `import { b } from "./b"
+import { a } from "./a"
+import { unused } from "./unused"
+
+const value = <string>a(b)`
+
+        const result = await formatCode(input, { filepath: "index.ts", importSortRemoveUnused: true })
+
+        expect(result).toBe(`import { a } from "./a";
+import { b } from "./b";
+
+const value = <string>a(b);
+`)
+    })
+
+    it("importSortBabelPlugins 添加额外的 Babel 插件", async () => {
+        const input = `import { b } from "./b"
+import { a } from "./a"
+import { unused } from "./unused"
+
+const value = a |> b(%)`
+
+        const result = await formatCode(input, {
+            parser: "babel",
+            importSortRemoveUnused: true,
+            importSortBabelPlugins: `[["pipelineOperator", { "proposal": "hack", "topicToken": "%" }]]`,
+        })
+
+        expect(result).toBe(`import { a } from "./a";
+import { b } from "./b";
+
+const value = a |> b(%);
+`)
+    })
+
+    it("createPlugin 的 babelPlugins 配置", async () => {
+        const customPlugin = createPlugin({
+            removeUnusedImports: true,
+            babelPlugins: [["pipelineOperator", { proposal: "hack", topicToken: "%" }]],
+        })
+
+        const input = `import { b } from "./b"
+import { a } from "./a"
+import { unused } from "./unused"
+
+const value = a |> b(%)`
+
+        const result = await formatCodeWithPlugin(input, customPlugin, { parser: "babel" })
+
+        expect(result).toBe(`import { a } from "./a";
+import { b } from "./b";
+
+const value = a |> b(%);
+`)
+    })
+
+    it("JSON 格式有误或插件名称未知时报告错误", async () => {
+        const input = `import b from "b"\nimport a from "a"`
+
+        await expect(formatCode(input, { importSortBabelPlugins: "[bad" })).rejects.toThrow("Invalid import sort Babel plugins")
+        await expect(formatCode(input, { importSortBabelPlugins: "notARealPlugin" })).rejects.toThrow('unknown plugin "notARealPlugin"')
+    })
+
+    it("Babel 无法使用插件的配置时报告错误", async () => {
+        await expect(formatCode(`import b from "b"\nimport a from "a"`, { importSortBabelPlugins: "pipelineOperator" })).rejects.toThrow(
+            'Invalid import sort Babel plugins: "pipelineOperator" requires "proposal" option',
+        )
+    })
+})
+
+describe("declare module 语句块测试", () => {
+    it("排序 declare module 语句块开头的导入语句并保留缩进", async () => {
+        const input = `import { z } from "z"
+import { a } from "a"
+
+declare module "express" {
+    import type { User } from "./user"
+    import type { Session } from "./session"
+
+    export interface Request {
+        user: User
+        session: Session
+    }
+}`
+
+        const result = await formatCode(input, { filepath: "express.d.ts" })
+
+        expect(result).toBe(`import { a } from "a";
+import { z } from "z";
+
+declare module "express" {
+  import type { Session } from "./session";
+  import type { User } from "./user";
+
+  export interface Request {
+    user: User;
+    session: Session;
+  }
+}
+`)
+    })
+
+    it("排序嵌套的命名空间中的导入语句", async () => {
+        const input = `declare module "shorthand"
+
+declare global {
+    namespace Express {
+        import { y } from "y"
+        import { x } from "x"
+        interface User {
+            x: x
+            y: y
+        }
+    }
+}`
+
+        const result = await formatCode(input, { filepath: "global.d.ts" })
+
+        expect(result).toBe(`declare module "shorthand";
+
+declare global {
+  namespace Express {
+    import { x } from "x";
+    import { y } from "y";
+
+    interface User {
+      x: x;
+      y: y;
+    }
+  }
+}
+`)
+    })
+
+    it("多行的导入语句保留语句块的缩进", async () => {
+        const input = `declare module "a" {
+    import { VeryLongName1, VeryLongName2, VeryLongName3, VeryLongName4, VeryLongName5 } from "./long"
+    import { b } from "./b"
+}`
+
+        const result = await formatCode(input, { filepath: "a.d.ts", tabWidth: 4 })
+
+        expect(result).toBe(`declare module "a" {
+    import { b } from "./b";
+    import {
+        VeryLongName1,
+        VeryLongName2,
+        VeryLongName3,
+        VeryLongName4,
+        VeryLongName5,
+    } from "./long";
+}
+`)
+    })
+})
+
+describe("三斜线指令测试", () => {
+    it("三斜线指令保留在导入语句块上方，并去除重复的指令", async () => {
+        const input = `// header
+/// <reference types="vite/client" />
+/// <reference path="./globals.d.ts" />
+/// <reference types='vite/client' />
+import { z } from "z"
+import { a } from "a"
+
+console.log(a, z)`
+
+        const result = await formatCode(input)
+
+        expect(result).toBe(`// header
+/// <reference types="vite/client" />
+/// <reference path="./globals.d.ts" />
+import { a } from "a";
+import { z } from "z";
+
+console.log(a, z);
+`)
+    })
+
+    it("importSortTripleSlashDirectives 为 true 时排序三斜线指令", async () => {
+        const input = `/// <reference path="./globals.d.ts" />
+/// <reference types="vite/client" />
+/// <reference types="node" />
+import { a } from "a"
+
+console.log(a)`
+
+        const result = await formatCode(input, { importSortTripleSlashDirectives: true })
+
+        expect(result).toBe(`/// <reference types="node" />
+/// <reference types="vite/client" />
+/// <reference path="./globals.d.ts" />
+import { a } from "a";
+
+console.log(a);
+`)
+    })
+
+    it("提升的导入语句插入到三斜线指令之后", async () => {
+        const input = `/// <reference types="node" />
+const x = 1
+import { b } from "b"
+import { a } from "a"`
+
+        const result = await formatCode(input, { importSortHoist: true })
+
+        expect(result).toBe(`/// <reference types="node" />
+import { a } from "a";
+import { b } from "b";
+
+const x = 1;
+`)
+    })
+})
+
+describe("字符串比较规则测试", () => {
+    it("importSortNatural 为 true 时按照数值大小比较数字", async () => {
+        const input = `import { c } from "./file10"
+import { b } from "./file2"
+import { a10, a2, a1 } from "./a"`
+
+        const result = await formatCode(input, { importSortNatural: true })
+
+        expect(result).toBe(`import { a1, a2, a10 } from "./a";
+import { b } from "./file2";
+import { c } from "./file10";
+`)
+    })
+
+    it("importSortCaseOrder 为 upper-first 时大写在前", async () => {
+        const input = `import { b, B, a, A } from "./x"`
+
+        const result = await formatCode(input, { importSortCaseOrder: "upper-first", importSortLocale: "en" })
+
+        expect(result).toBe(`import { A, a, B, b } from "./x";
+`)
+    })
+
+    it("importSortCaseOrder 为 case-insensitive 时只有大小写不同的内容保持原有顺序", async () => {
+        const input = `import { b, B, a, A } from "./x"`
+
+        const result = await formatCode(input, { importSortCaseOrder: "case-insensitive", importSortLocale: "en" })
+
+        expect(result).toBe(`import { a, A, b, B } from "./x";
+`)
+    })
+
+    it("importSortLocale 无效时使用运行环境的语言继续排序", async () => {
+        const input = `import { b } from "./b"
+import { a } from "./a"`
+
+        const result = await formatCode(input, { importSortLocale: "not a locale!!" })
+
+        expect(result).toBe(`import { a } from "./a";
+import { b } from "./b";
+`)
+    })
+
+    it("createPlugin 的 collation 配置同时作用于分组排序", async () => {
+        const customPlugin = createPlugin({
+            getGroup: statement => statement.path.split("/")[1],
+            separator: "",
+            collation: { numeric: true, locale: "en" },
+        })
+
+        const input = `import { b } from "./group10/b"
+import { a } from "./group2/a"`
+
+        const result = await formatCodeWithPlugin(input, customPlugin)
+
+        expect(result).toBe(`import { a } from "./group2/a";
+
+import { b } from "./group10/b";
+`)
+    })
+})
+
+describe("相对路径导入排序测试", () => {
+    const input = `import { a } from "./Button"
+import { b } from "../hooks"
+import { c } from "../../shared"
+import { d } from "."
+import { e } from "./utils"
+import { f } from "react"`
+
+    it("importSortRelativeOrder 为 farthest-first 时层级越多越靠前", async () => {
+        const result = await formatCode(input, { importSortRelativeOrder: "farthest-first" })
+
+        expect(result).toBe(`import { f } from "react";
+import { c } from "../../shared";
+import { b } from "../hooks";
+import { d } from ".";
+import { a } from "./Button";
+import { e } from "./utils";
+`)
+    })
+
+    it("importSortRelativeOrder 为 nearest-first 并开启 importSortIndexLast", async () => {
+        const result = await formatCode(input, { importSortRelativeOrder: "nearest-first", importSortIndexLast: true })
+
+        expect(result).toBe(`import { f } from "react";
+import { a } from "./Button";
+import { e } from "./utils";
+import { b } from "../hooks";
+import { c } from "../../shared";
+import { d } from ".";
+`)
+    })
+
+    it("在自定义的 sortImportStatement 中使用 createRelativeImportComparator", async () => {
+        const compareRelativeImports = createRelativeImportComparator({ order: "farthest-first" })
+
+        const customPlugin = createPlugin({
+            sortImportStatement: (a, b) => compareRelativeImports(a, b) || a.path.localeCompare(b.path),
+        })
+
+        const result = await formatCodeWithPlugin(input, customPlugin)
+
+        expect(result).toBe(`import { c } from "../../shared";
+import { b } from "../hooks";
+import { d } from ".";
+import { a } from "./Button";
+import { e } from "./utils";
+import { f } from "react";
+`)
+    })
+})
+
+describe("helpers 测试", () => {
+    it("导出分类函数", () => {
+        expect(helpers.getImportType("react")).toBe("module")
+        expect(helpers.getImportType("@/utils")).toBe("alias")
+        expect(helpers.getImportType("../utils")).toBe("relative")
+        expect(helpers.isBuiltinModule("node:fs")).toBe(true)
+        expect(helpers.isIndexPath("./index")).toBe(true)
+        expect(helpers.getRelativeDepth("../../shared")).toBe(2)
+    })
+
+    it("使用 composeComparators 在默认规则之前添加自定义规则", async () => {
+        const customPlugin = createPlugin({
+            sortImportStatement: helpers.composeComparators(
+                (a, b) => Number(b.path.startsWith("react")) - Number(a.path.startsWith("react")),
+                helpers.defaultSortImportStatement,
+            ),
+        })
+
+        const input = `import { b } from "./b"
+import { lodash } from "lodash"
+import { useState } from "react"
+import { a } from "@/a"`
+
+        const result = await formatCodeWithPlugin(input, customPlugin)
+
+        expect(result).toBe(`import { useState } from "react";
+import { lodash } from "lodash";
+import { a } from "@/a";
+import { b } from "./b";
+`)
+    })
+
+    it("使用 byGroupOrder 按照给定顺序排序分组", async () => {
+        const customPlugin = createPlugin({
+            getGroup: statement => helpers.getStatementImportType(statement),
+            sortGroup: helpers.byGroupOrder(["relative", "module"]),
+            separator: "",
+        })
+
+        const input = `import { lodash } from "lodash"
+import { a } from "@/a"
+import { b } from "./b"`
+
+        const result = await formatCodeWithPlugin(input, customPlugin)
+
+        expect(result).toBe(`import { b } from "./b";
+
+import { lodash } from "lodash";
+
+import { a } from "@/a";
+`)
+    })
+
+    it("defaultSortGroup 与自定义 getGroup 的默认规则相同，sortGroupSideEffectsLast 将副作用分组排在最后", async () => {
+        const getGroup = (statement: { path: string }) => (statement.path.startsWith(".") ? "local" : "external")
+
+        const input = `import "./polyfill"
+import x from "x"
+import y from "./y"`
+
+        const byDefault = await formatCodeWithPlugin(input, createPlugin({ getGroup }))
+        const byName = await formatCodeWithPlugin(input, createPlugin({ getGroup, sortGroup: helpers.defaultSortGroup }))
+        const sideEffectsLast = await formatCodeWithPlugin(input, createPlugin({ getGroup, sortGroup: helpers.sortGroupSideEffectsLast }))
+
+        expect(byName).toBe(byDefault)
+        expect(sideEffectsLast).toBe(`import x from "x";
+import y from "./y";
+import "./polyfill";
+`)
+    })
+})
+
+describe("分组顺序测试", () => {
+    const input = `import "./styles.css"
+import { a } from "./a"
+import "polyfill"
+import { join } from "node:path"
+import { b } from "@/b"
+import React from "react"`
+
+    it("importSortGroupOrder 无效时报告错误", async () => {
+        await expect(formatCode(input, { importSortGroupOrder: "[bad" })).rejects.toThrow("Invalid import sort group order")
+        await expect(formatCode(input, { importSortGroupOrder: "[1, 2]" })).rejects.toThrow("expected an array of group names")
+    })
+
+    it("importSortGroupOrder 中的 * 代表未列出的分组", async () => {
+        const result = await formatCode(input, {
+            importSortGroupPreset: "node",
+            importSortSideEffect: true,
+            importSortGroupOrder: "relative,*,builtin",
+            importSortSeparator: "",
+        })
+
+        expect(result).toBe(`import { a } from "./a";
+
+import React from "react";
+
+import { b } from "@/b";
+
+import { join } from "node:path";
+
+import "./styles.css";
+
+import "polyfill";
+`)
+    })
+
+    it("importSortSideEffectPlacement 为 mixed 时副作用分组跟随同名的普通分组", async () => {
+        const result = await formatCode(input, {
+            importSortGroupPreset: "node",
+            importSortSideEffect: true,
+            importSortSideEffectPlacement: "mixed",
+            importSortSeparator: "",
+        })
+
+        expect(result).toBe(`import { join } from "node:path";
+
+import React from "react";
+
+import "polyfill";
+
+import { b } from "@/b";
+
+import { a } from "./a";
+
+import "./styles.css";
+`)
+    })
+
+    it("createPlugin 的 groupOrder 和 sideEffectGroupPlacement 配置", async () => {
+        const customPlugin = createPlugin({
+            getGroup: statement => (statement.path.startsWith(".") ? "local" : "package"),
+            groupOrder: ["local", "package"],
+            sideEffectGroupPlacement: "first",
+            sortSideEffect: true,
+            separator: "",
+        })
+
+        const result = await formatCodeWithPlugin(input, customPlugin)
+
+        expect(result).toBe(`import "./styles.css";
+
+import "polyfill";
+
+import { a } from "./a";
+
+import { join } from "node:path";
+import React from "react";
+import { b } from "@/b";
+`)
+    })
+
+    it("自定义 getGroup 没有配置分组顺序时只按照分组名称排序", async () => {
+        const customPlugin = createPlugin({
+            getGroup: statement => (statement.path.startsWith(".") ? "local" : "external"),
+        })
+
+        const result = await formatCodeWithPlugin(
+            `import "./polyfill"
+import x from "x"
+import y from "./y"`,
+            customPlugin,
+        )
+
+        expect(result).toBe(`import x from "x";
+import "./polyfill";
+import y from "./y";
+`)
+    })
+})
+
+describe("导入内容排序规则测试", () => {
+    it("importSortTypeSpecifierPlacement 为 last 时类型导入内容排在最后", async () => {
+        const input = `import { type B, d, type A, c } from "./x"`
+
+        const result = await formatCode(input, { importSortTypeSpecifierPlacement: "last" })
+
+        expect(result).toBe(`import { c, d, type A, type B } from "./x";
+`)
+    })
+
+    it("importSortTypeSpecifierPlacement 为 mixed 时类型导入内容与普通导入内容一起排序", async () => {
+        const input = `import Default, { c, type b, a } from "./x"`
+
+        const first = await formatCode(input)
+        const mixed = await formatCode(input, { importSortTypeSpecifierPlacement: "mixed" })
+
+        expect(first).toBe(`import Default, { type b, a, c } from "./x";
+`)
+        expect(mixed).toBe(`import Default, { a, type b, c } from "./x";
+`)
+    })
+
+    it("importSortSpecifiersBy 为 imported 时按照模块中导出的名称排序", async () => {
+        const input = `import { b as a, a as b } from "./x"`
+
+        const local = await formatCode(input)
+        const imported = await formatCode(input, { importSortSpecifiersBy: "imported" })
+
+        expect(local).toBe(`import { b as a, a as b } from "./x";
+`)
+        expect(imported).toBe(`import { a as b, b as a } from "./x";
+`)
+    })
+
+    it("合并后的导入内容按照配置重新排序", async () => {
+        const customPlugin = createPlugin({
+            typeSpecifierPlacement: "last",
+        })
+
+        const input = `import { type B, d } from "./x"
+import { type E, a } from "./x"`
+
+        const result = await formatCodeWithPlugin(input, customPlugin)
+
+        expect(result).toBe(`import { a, d, type B, type E } from "./x";
+`)
+    })
 })
 
 describe("边界情况和错误处理测试", () => {